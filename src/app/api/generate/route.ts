@@ -0,0 +1,47 @@
+import {
+  validateGenerateRequest,
+  type GenerateErrorBody,
+  type GenerateErrorCode,
+} from "@/lib/music/request";
+import { ProviderError, METADATA_HEADER, encodeMetadataHeader } from "@/lib/music/provider";
+import { getMusicProvider } from "@/lib/music/providers";
+
+function errorResponse(status: number, code: GenerateErrorCode, message: string, field?: GenerateErrorBody["error"]["field"]) {
+  const body: GenerateErrorBody = { error: { code, message, ...(field ? { field } : {}) } };
+  return Response.json(body, { status });
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "invalid_request", "Request body must be valid JSON");
+  }
+
+  const validation = validateGenerateRequest(body);
+  if (!validation.ok) {
+    return errorResponse(400, validation.error.code, validation.error.message, validation.error.field);
+  }
+
+  try {
+    const provider = getMusicProvider();
+    const result = await provider.compose(validation.value, request.signal);
+
+    // Stream the audio straight through to the browser
+    return new Response(result.audio, {
+      status: 200,
+      headers: {
+        "Content-Type": result.mimeType,
+        "Cache-Control": "no-store",
+        [METADATA_HEADER]: encodeMetadataHeader(result.metadata),
+      },
+    });
+  } catch (err) {
+    if (err instanceof ProviderError) {
+      return errorResponse(err.status, err.code, err.message);
+    }
+    console.error("❌ Unexpected generation error:", err);
+    return errorResponse(500, "internal_error", "Unexpected error while generating music");
+  }
+}
@@ -3,18 +3,125 @@
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Play, Mic, Volume2, VolumeX, Square, Trash2 } from "lucide-react";
+import { Waveform } from "@/components/waveform";
+import { TrackEffectsPanel } from "@/components/track-effects";
+import { Play, Mic, Volume2, VolumeX, Square, Trash2, Headphones, Download, Package, Save, FolderOpen, RefreshCw, Check, Undo2, Redo2, X, RotateCcw, Timer, TimerOff, SlidersHorizontal } from "lucide-react";
 import { motion } from "framer-motion";
 import Image from "next/image";
+import {
+  saveTrackAudio,
+  loadTrackAudio,
+  deleteTrackAudio,
+  clearTrackAudio,
+  pruneTrackAudio,
+} from "@/lib/audio-store";
+import { instrumentDefs } from "@/lib/instruments";
+import { requestGeneration, GenerateError, type GeneratedAudio } from "@/lib/music/client";
+import { MAX_BPM, MIN_BPM, type GenerateRequest } from "@/lib/music/request";
+import {
+  DEFAULT_GENERATION_CONCURRENCY,
+  GENERATION_CONCURRENCY_OPTIONS,
+  MAX_GENERATION_RETRIES,
+  createGenerationQueue,
+  isAbortError,
+  type GenerationJobState,
+  type GenerationQueue,
+} from "@/lib/music/queue";
+import type { Track, TrackTake } from "@/lib/track";
+import {
+  addTake,
+  getActiveTakeId,
+  getAllTakeIds,
+  getTakeLabel,
+  getTrackTakes,
+  keepActiveTake,
+  mapTakes,
+  restoreTakeUrls,
+  selectTake,
+} from "@/lib/takes";
+import {
+  DEFAULT_MASTER_VOLUME,
+  PARAM_SMOOTHING,
+  clamp,
+  getEffectiveGain,
+  getTrackEffects,
+  getTrackNormalization,
+  getTrackPan,
+  getTrackVolume,
+  isTrackAudible,
+} from "@/lib/mixer";
+import {
+  DEFAULT_TIME_SIGNATURE,
+  TIME_SIGNATURES,
+  calculateLoopBars,
+  calculateOptimalDuration,
+  formatTimeSignature,
+  parseTimeSignature,
+  secondsPerPulse,
+  type TimeSignature,
+} from "@/lib/timing";
+import { prepareLoop, scaleLoopBounds, type LoopBounds, type PreparedLoop } from "@/lib/audio/loop-points";
+import { analyzeTempo, getTempoDeviation, isDownbeatOff, isTempoOff, type TempoAnalysis } from "@/lib/audio/tempo-detection";
+import { createTrackChain, type TrackChain } from "@/lib/audio/track-chain";
+import { getNormalizationGain, measureLoudness, type LoudnessAnalysis } from "@/lib/audio/loudness";
+import { createLimiter } from "@/lib/audio/limiter";
+import { createReverb, type Reverb } from "@/lib/audio/reverb";
+import { hasEffects, type EffectParam, type TrackEffects } from "@/lib/audio/effects";
+import { DEFAULT_MIXDOWN_OPTIONS, exportMixdownWav, type MixdownOptions, type MixdownTrack } from "@/lib/audio/mixdown";
+import { downloadBlob } from "@/lib/download";
+import { exportStemsZip, type StemSource } from "@/lib/audio/stems";
+import { parseVoiceIntent, resolveTrackTarget, stripWakeWord, type VoiceIntent } from "@/lib/voice/intents";
+import {
+  DEFAULT_VOICE_LANGUAGE,
+  VOCABULARIES,
+  VOICE_LANGUAGES,
+  isVoiceLanguage,
+  type VoiceLanguage,
+} from "@/lib/voice/vocabulary";
+import { getCommandSuggestions } from "@/lib/voice/suggestions";
+import { createProjectFile, readProjectFile, ProjectFileError, PROJECT_EXTENSION } from "@/lib/project-file";
+import {
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  describeAction,
+  getDetachedTracks,
+  getRedoEntry,
+  getUndoEntry,
+  historyFromMessages,
+  historyToMessages,
+  markRedone,
+  markUndone,
+  pushEntry,
+  replaceEntry,
+  retireTakeActions,
+  type HistoryAction,
+  type HistoryLog,
+} from "@/lib/history";
+import {
+  DEFAULT_LAUNCH_QUANTIZE,
+  createTransport,
+  formatBarPosition,
+  getBarPosition,
+  getLoopOffset,
+  type LaunchQuantize,
+  type Transport,
+} from "@/lib/audio/transport";
+import {
+  COUNT_IN_OPTIONS,
+  DEFAULT_METRONOME_VOLUME,
+  createMetronome,
+  getCountInBeats,
+  type Metronome,
+} from "@/lib/audio/metronome";
+import { DEFAULT_STRETCH_MODE, getTempoRatio, type StretchMode } from "@/lib/audio/time-stretch";
+import { createStretcher, type Stretcher } from "@/lib/audio/stretcher";
 
-interface Track {
-  name: string;
-  id: number;
-  url: string | null;
-  muted?: boolean;
-}
-
-type RecognitionEvent = { results: Array<Array<{ transcript: string }>> };
+type RecognitionEvent = {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+};
+type RecognitionErrorEvent = { error: string };
+type CommandSource = 'voice' | 'typed';
 
 interface WebkitSpeechRecognition {
   lang: string;
@@ -23,6 +130,7 @@ interface WebkitSpeechRecognition {
   start: () => void;
   stop: () => void;
   onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
   onend: (() => void) | null;
 }
 
@@ -40,23 +148,80 @@ export default function GrooveApp() {
   // Debug: track every state change
   console.log(`🔄 Component render - tracks count: ${tracks.length}`, tracks.map(t => t.name));
   
-  // Load from localStorage only on client side
+  // Load from localStorage only on client side, rebuilding blob URLs from IndexedDB
   useEffect(() => {
-    setIsClient(true);
+    let parsedTracks: Track[] = [];
     const saved = localStorage.getItem('groove-app-tracks');
     if (saved) {
       try {
-        const parsedTracks = JSON.parse(saved);
-        setTracks(parsedTracks);
+        parsedTracks = JSON.parse(saved);
       } catch (e) {
         console.warn('Failed to parse saved tracks:', e);
       }
     }
+
+    restoreTakeUrls(parsedTracks)
+      .then((restored) => {
+        const staleCount = restored.filter(t => t.stale).length;
+        if (staleCount > 0) {
+          console.warn(`⚠️ ${staleCount} saved track(s) lost their audio and are marked stale`);
+        }
+        setTracks(restored);
+        return pruneTrackAudio(getAllTakeIds(restored));
+      })
+      .catch((e) => console.warn('Failed to restore track audio:', e))
+      .finally(() => setIsClient(true));
     
+    const savedStretchMode = localStorage.getItem('groove-app-stretch-mode');
+    if (savedStretchMode === 'varispeed' || savedStretchMode === 'quality') {
+      setStretchMode(savedStretchMode);
+    }
+
+    const savedQuantize = localStorage.getItem('groove-app-launch-quantize');
+    if (savedQuantize === 'bar' || savedQuantize === 'beat' || savedQuantize === 'off') {
+      setLaunchQuantize(savedQuantize);
+    }
+
+    setMetronomeEnabled(localStorage.getItem('groove-app-metronome-enabled') === 'true');
+    const savedMetronomeVolume = localStorage.getItem('groove-app-metronome-volume');
+    if (savedMetronomeVolume !== null) {
+      setMetronomeVolume(clamp(Number(savedMetronomeVolume), 0, 1));
+    }
+    const savedCountIn = Number(localStorage.getItem('groove-app-count-in'));
+    if (COUNT_IN_OPTIONS.includes(savedCountIn)) {
+      setCountInBars(savedCountIn);
+    }
+
+    const savedConcurrency = Number(localStorage.getItem('groove-app-generation-concurrency'));
+    if (GENERATION_CONCURRENCY_OPTIONS.includes(savedConcurrency)) {
+      setGenerationConcurrency(savedConcurrency);
+    }
+
+    const savedVoiceLanguage = localStorage.getItem('groove-app-voice-language');
+    if (isVoiceLanguage(savedVoiceLanguage)) {
+      setVoiceLanguage(savedVoiceLanguage);
+    }
+    setHandsFree(localStorage.getItem('groove-app-hands-free') === 'true');
+
+    const savedMaster = localStorage.getItem('groove-app-master-volume');
+    const initialMaster = savedMaster !== null ? clamp(Number(savedMaster), 0, 1) : DEFAULT_MASTER_VOLUME;
+    setMasterVolume(initialMaster);
+
     // Initialize Web Audio API
     if (typeof window !== 'undefined' && 'AudioContext' in window) {
       try {
-        audioContextRef.current = new AudioContext();
+        const ctx = new AudioContext();
+        // Master bus: every track's panner feeds this gain, then the limiter, before the speakers
+        const masterGain = ctx.createGain();
+        masterGain.gain.value = initialMaster;
+        masterGain.connect(createLimiter(ctx, ctx.destination).input);
+        audioContextRef.current = ctx;
+        masterGainRef.current = masterGain;
+        reverbRef.current = createReverb(ctx, masterGain);
+        const transport = createTransport(ctx);
+        transportRef.current = transport;
+        // Straight to the speakers, bypassing the master bus - the click is for the player only
+        metronomeRef.current = createMetronome(ctx, transport.getClock, ctx.destination);
         setWebAudioSupported(true);
         console.log('🎧 Web Audio API initialized for seamless looping');
       } catch (e) {
@@ -72,68 +237,154 @@ export default function GrooveApp() {
       localStorage.setItem('groove-app-tracks', JSON.stringify(tracks));
     }
   }, [tracks, isClient]);
-  const [history, setHistory] = useState<string[]>([]);
+
+  const [history, setHistory] = useState<HistoryLog>(EMPTY_HISTORY);
   const [listening, setListening] = useState(false);
+  const [voiceLanguage, setVoiceLanguage] = useState<VoiceLanguage>(DEFAULT_VOICE_LANGUAGE);
+  // Hands-free: the recognizer keeps running and only acts on phrases that start with the wake word
+  const [handsFree, setHandsFree] = useState(false);
+  // Chrome ends even continuous sessions after a stretch of silence - this says whether to restart
+  const keepListeningRef = useRef(false);
   const [currentBPM, setCurrentBPM] = useState(120);
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>(DEFAULT_TIME_SIGNATURE);
   const recognitionRef = useRef<WebkitSpeechRecognition | null>(null);
+  const projectInputRef = useRef<HTMLInputElement | null>(null);
+  // Typed commands go through the same parser as voice - the only input where speech isn't available
+  const [speechSupported, setSpeechSupported] = useState(true);
+  const [commandText, setCommandText] = useState('');
+  const commandInputRef = useRef<HTMLInputElement | null>(null);
+  // Recognition is set up once, so it dispatches through a ref that always sees the latest state
+  const voiceTranscriptHandlerRef = useRef<(transcript: string) => void>(() => {});
   const audioRefs = useRef<Map<number, HTMLAudioElement>>(new Map());
   const loopHandlers = useRef<Map<number, () => void>>(new Map());
   
   // Web Audio API for seamless looping
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Decoded audio keyed by take id (the track id for tracks that were never regenerated)
   const audioBuffersRef = useRef<Map<number, AudioBuffer>>(new Map());
+  const bufferLoadsRef = useRef<Map<number, Promise<AudioBuffer | null>>>(new Map());
+  // Takes whose audio couldn't be fetched, decoded or measured - the decode effect leaves them alone
+  const failedTakesRef = useRef<Set<number>>(new Set());
+  // Buffers live in a ref; this re-renders once one is decoded so its waveform appears
+  const [, setDecodedBufferCount] = useState(0);
+  // Bar-aligned, crossfaded (and possibly stretched) copies of the decoded buffers
+  const loopCacheRef = useRef<Map<number, { key: string; loop: PreparedLoop; playbackRate: number }>>(new Map());
+  // Quality-mode stretches by take id, rendered in a worker - the varispeed loop stands in until one is ready
+  const stretcherRef = useRef<Stretcher | null>(null);
+  const stretchedBuffersRef = useRef<Map<number, { ratio: number; buffer: AudioBuffer }>>(new Map());
+  const stretchJobsRef = useRef<Map<number, { ratio: number; done: Promise<void> }>>(new Map());
   const sourceNodesRef = useRef<Map<number, AudioBufferSourceNode>>(new Map());
-  const gainNodesRef = useRef<Map<number, GainNode>>(new Map());
+  const playingTakesRef = useRef<Map<number, number>>(new Map());
+  const trackChainsRef = useRef<Map<number, TrackChain>>(new Map());
+  const masterGainRef = useRef<GainNode | null>(null);
+  // Shared send reverb on the master bus, fed by every track's reverb send
+  const reverbRef = useRef<Reverb | null>(null);
+  // Track whose effects panel is open
+  const [effectsTrackId, setEffectsTrackId] = useState<number | null>(null);
+  // One clock for every live source - see lib/audio/transport
+  const transportRef = useRef<Transport | null>(null);
+  // Bar.beat readout; the playhead itself is moved straight on the DOM to avoid a render per frame
+  const [barReadout, setBarReadout] = useState<string | null>(null);
+  const playheadRef = useRef<HTMLDivElement | null>(null);
+  // Click track on the transport clock, plus bars of count-in before Play All
+  const metronomeRef = useRef<Metronome | null>(null);
+  const [metronomeEnabled, setMetronomeEnabled] = useState(false);
+  const [metronomeVolume, setMetronomeVolume] = useState(DEFAULT_METRONOME_VOLUME);
+  const [countInBars, setCountInBars] = useState(0);
+  // New tracks, new takes and mute toggles wait for the next bar (or beat) while the groove plays
+  const [launchQuantize, setLaunchQuantize] = useState<LaunchQuantize>(DEFAULT_LAUNCH_QUANTIZE);
+  const launchingRef = useRef<Set<number>>(new Set());
+  // Audibility last pushed to each live chain, so mute/solo flips can be told apart from volume moves
+  const appliedAudibleRef = useRef<Map<number, boolean>>(new Map());
+  // Async launches check the latest tracks, not the ones from the render that started them
+  const tracksRef = useRef<Track[]>(tracks);
+  tracksRef.current = tracks;
+  // Effects call these through the ref: they see the latest render's state but only re-run on their own dependencies
+  const handlersRef = useRef({ applyMixer, ensureBuffersLoaded, refitPlayingTracks, launchPendingTracks, swapInStretchedLoop });
+  handlersRef.current = { applyMixer, ensureBuffersLoaded, refitPlayingTracks, launchPendingTracks, swapInStretchedLoop };
+  const [masterVolume, setMasterVolume] = useState(DEFAULT_MASTER_VOLUME);
+
+  useEffect(() => {
+    if (isClient) {
+      localStorage.setItem('groove-app-master-volume', String(masterVolume));
+    }
+  }, [masterVolume, isClient]);
   const [webAudioSupported, setWebAudioSupported] = useState(false);
   const [isPlayingAll, setIsPlayingAll] = useState(false);
+  const [stretchMode, setStretchMode] = useState<StretchMode>(DEFAULT_STRETCH_MODE);
+  const [mixdownOptions, setMixdownOptions] = useState<MixdownOptions>(DEFAULT_MIXDOWN_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  // Pending generations by track id - new tracks and regenerated takes alike
+  const [generationJobs, setGenerationJobs] = useState<Record<number, GenerationJobState>>({});
+  const [generationConcurrency, setGenerationConcurrency] = useState(DEFAULT_GENERATION_CONCURRENCY);
+  const generationQueueRef = useRef<GenerationQueue | null>(null);
+
+  useEffect(() => {
+    if (isClient) {
+      localStorage.setItem('groove-app-stretch-mode', stretchMode);
+    }
+  }, [stretchMode, isClient]);
+
+  useEffect(() => {
+    if (isClient) {
+      localStorage.setItem('groove-app-launch-quantize', launchQuantize);
+    }
+  }, [launchQuantize, isClient]);
+
+  useEffect(() => {
+    const metronome = metronomeRef.current;
+    metronome?.setEnabled(metronomeEnabled);
+    metronome?.setVolume(metronomeVolume);
+    metronome?.setTimeSignature(timeSignature);
+  }, [metronomeEnabled, metronomeVolume, timeSignature]);
+
+  useEffect(() => {
+    if (isClient) {
+      localStorage.setItem('groove-app-metronome-enabled', String(metronomeEnabled));
+      localStorage.setItem('groove-app-metronome-volume', String(metronomeVolume));
+      localStorage.setItem('groove-app-count-in', String(countInBars));
+    }
+  }, [metronomeEnabled, metronomeVolume, countInBars, isClient]);
+
+  useEffect(() => {
+    generationQueueRef.current?.setConcurrency(generationConcurrency);
+    if (isClient) {
+      localStorage.setItem('groove-app-generation-concurrency', String(generationConcurrency));
+    }
+  }, [generationConcurrency, isClient]);
+
+  useEffect(() => {
+    if (isClient) {
+      localStorage.setItem('groove-app-voice-language', voiceLanguage);
+      localStorage.setItem('groove-app-hands-free', String(handsFree));
+    }
+  }, [voiceLanguage, handsFree, isClient]);
 
-  const instrumentDefs: { name: string; emoji: string }[] = [
-    { name: "Piano", emoji: "🎹" },
-    { name: "Saxophone", emoji: "🎷" }, 
-    { name: "Electric Guitar", emoji: "🎸" },
-    { name: "Bass Guitar", emoji: "🎸" },
-    { name: "Electric Bass", emoji: "🎸" },
-    { name: "Drum Set", emoji: "🥁" },
-    { name: "Maracas", emoji: "🪇" },
-    { name: "Trumpet", emoji: "🎺" },
-  ];
-  const availableInstruments = instrumentDefs.map((i) => i.name);
-  
   // BPM presets for easy selection
   const bpmPresets = [80, 90, 100, 110, 120, 130, 140, 150];
   
-  // Calculate optimal duration for complete musical phrases
-  function calculateOptimalDuration(bpm: number, timeSignature: { beats: number, noteValue: number } = { beats: 4, noteValue: 4 }): number {
-    // Calculate seconds per beat
-    const secondsPerBeat = 60 / bpm;
-    
-    // Calculate seconds per measure/bar
-    const secondsPerBar = secondsPerBeat * timeSignature.beats;
-    
-    // Find the minimum number of bars that gives us at least 10 seconds
-    const minBars = Math.ceil(10 / secondsPerBar);
-    
-    // Calculate total duration in seconds (rounded to avoid floating point issues)
-    const durationSeconds = Math.round(minBars * secondsPerBar * 1000) / 1000;
-    
-    console.log(`🎵 Calculated duration for ${bpm} BPM: ${minBars} bars = ${durationSeconds.toFixed(2)} seconds`);
-    
-    return durationSeconds;
-  }
-  
   // Show current optimal duration in UI
   function getCurrentDuration(): string {
-    const duration = calculateOptimalDuration(currentBPM);
-    const bars = Math.ceil(10 / ((60 / currentBPM) * 4));
+    const duration = calculateOptimalDuration(currentBPM, timeSignature);
+    const bars = calculateLoopBars(currentBPM, timeSignature);
     return `${bars} bars (${duration.toFixed(1)}s)`;
   }
   
   // Load audio buffer for Web Audio API seamless looping
-  async function loadAudioBuffer(trackId: number, url: string): Promise<void> {
-    if (!audioContextRef.current || !webAudioSupported) return;
+  function loadAudioBuffer(audioId: number, url: string): Promise<AudioBuffer | null> {
+    // The decode effect, generation and playback can all ask for the same take at once
+    const pending = bufferLoadsRef.current.get(audioId);
+    if (pending) return pending;
+    const load = decodeAudioBuffer(audioId, url).finally(() => bufferLoadsRef.current.delete(audioId));
+    bufferLoadsRef.current.set(audioId, load);
+    return load;
+  }
+
+  async function decodeAudioBuffer(audioId: number, url: string): Promise<AudioBuffer | null> {
+    if (!audioContextRef.current || !webAudioSupported) return null;
     
     try {
-      console.log(`🎧 Loading audio buffer for track ${trackId}`);
+      console.log(`🎧 Loading audio buffer for ${audioId}`);
       
       // Fetch audio data
       const response = await fetch(url);
@@ -141,168 +392,318 @@ export default function GrooveApp() {
       
       // Decode audio data
       const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-      audioBuffersRef.current.set(trackId, audioBuffer);
+      audioBuffersRef.current.set(audioId, audioBuffer);
+      setDecodedBufferCount(count => count + 1);
       
-      console.log(`✅ Audio buffer loaded for track ${trackId}, duration: ${audioBuffer.duration.toFixed(2)}s`);
+      console.log(`✅ Audio buffer loaded for ${audioId}, duration: ${audioBuffer.duration.toFixed(2)}s`);
+      return audioBuffer;
     } catch (error) {
-      console.error(`❌ Failed to load audio buffer for track ${trackId}:`, error);
+      console.error(`❌ Failed to load audio buffer for ${audioId}:`, error);
+      failedTakesRef.current.add(audioId);
+      return null;
     }
   }
+
+  // Measure what the provider actually delivered against the tempo we asked for
+  function measureTempo(name: string, buffer: AudioBuffer, bpm: number, meter: TimeSignature): TempoAnalysis {
+    const analysis = analyzeTempo(buffer, bpm, meter);
+    const deviation = (getTempoDeviation(analysis) * 100).toFixed(1);
+    console.log(`🥁 ${name}: ~${analysis.bpm} BPM (asked ${bpm}, ${deviation}%), downbeat at ${analysis.downbeatOffset}s, confidence ${analysis.confidence}`);
+    if (isTempoOff(analysis)) {
+      console.warn(`⚠️ ${name} is off the requested tempo - offering a tempo correction`);
+    }
+    return analysis;
+  }
+
+  function measureTakeLoudness(name: string, buffer: AudioBuffer): LoudnessAnalysis {
+    const loudness = measureLoudness(buffer);
+    const gain = 20 * Math.log10(getNormalizationGain(loudness));
+    console.log(`🔊 ${name}: ${loudness.integrated} LUFS, peak ${loudness.peak} dBFS, normalizing by ${gain.toFixed(1)} dB`);
+    return loudness;
+  }
+
+  // Measurements are taken once per take - ones already there are kept
+  function attachTakeAnalysis(takeId: number, analysis: Pick<TrackTake, 'tempoAnalysis' | 'loudness'>) {
+    setTracks(prev => prev.map(t =>
+      getTrackTakes(t).some(take => take.id === takeId)
+        ? mapTakes(t, take => (take.id === takeId
+          ? { ...take, tempoAnalysis: take.tempoAnalysis ?? analysis.tempoAnalysis, loudness: take.loudness ?? analysis.loudness }
+          : take))
+        : t
+    ));
+  }
   
-  // Play track with Web Audio API (seamless looping)
-  function playTrackWebAudio(trackId: number, muted: boolean = false): void {
-    if (!audioContextRef.current || !webAudioSupported) return;
+  // Fit a track to the session tempo. Varispeed keeps the original buffer and plays it
+  // faster/slower; quality mode plays a pitch-preserving stretch at the session BPM once
+  // the worker has rendered it, and varispeed until then.
+  // Loop points depend on BPM, so the prepared buffer is rebuilt when the tempo changes.
+  function getPreparedLoop(track: Track): { loop: PreparedLoop; playbackRate: number } | null {
+    const ctx = audioContextRef.current;
+    const takeId = getActiveTakeId(track);
+    const audioBuffer = audioBuffersRef.current.get(takeId);
+    if (!ctx || !audioBuffer) return null;
 
-    const audioBuffer = audioBuffersRef.current.get(trackId);
-    if (!audioBuffer) return;
+    // Tracks saved before per-track tempo was recorded play as-is
+    const trackBPM = track.bpm ?? currentBPM;
+    const trackMeter = track.timeSignature ?? timeSignature;
+    const ratio = getTempoRatio(currentBPM, trackBPM);
+    const wantsStretch = stretchMode === 'quality' && ratio !== 1;
+    const stretched = stretchedBuffersRef.current.get(takeId);
+    const stretchedBuffer = wantsStretch && stretched?.ratio === ratio ? stretched.buffer : null;
+    if (wantsStretch && !stretchedBuffer) requestStretch(track, takeId, audioBuffer, ratio);
+    const useStretch = stretchedBuffer !== null;
+    const key = `${takeId}|${useStretch ? `quality@${ratio}` : `varispeed@${trackBPM}`}|${formatTimeSignature(trackMeter)}|${track.loopStart ?? 'auto'}-${track.loopEnd ?? 'auto'}`;
 
-    // Stop existing source if playing
-    const existingSource = sourceNodesRef.current.get(trackId);
-    if (existingSource) {
-      existingSource.stop();
-      sourceNodesRef.current.delete(trackId);
-    }
+    const cached = loopCacheRef.current.get(track.id);
+    if (cached && cached.key === key) return { loop: cached.loop, playbackRate: cached.playbackRate };
+
+    // Loop points set on the track are in seconds of the original audio; the stretched copy is shorter or longer
+    const bounds: LoopBounds = { start: track.loopStart, end: track.loopEnd };
+    const loop = stretchedBuffer
+      ? prepareLoop(ctx, stretchedBuffer, trackBPM * ratio, trackMeter, scaleLoopBounds(bounds, 1 / ratio))
+      : prepareLoop(ctx, audioBuffer, trackBPM, trackMeter, bounds);
+    const playbackRate = useStretch ? 1 : ratio;
+    loopCacheRef.current.set(track.id, { key, loop, playbackRate });
+    console.log(`🔄 Loop for ${track.name}: ${loop.bars} bars, ${loop.start.toFixed(3)}s → ${loop.end.toFixed(3)}s (original: ${audioBuffer.duration.toFixed(2)}s, ${trackBPM} → ${currentBPM} BPM, ${useStretch ? 'stretched' : `rate x${playbackRate.toFixed(3)}`})`);
+    return { loop, playbackRate };
+  }
+
+  // One stretch per take at a time; a result for a ratio that has since changed is dropped
+  function requestStretch(track: Track, takeId: number, audioBuffer: AudioBuffer, ratio: number): Promise<void> {
+    const ctx = audioContextRef.current;
+    const job = stretchJobsRef.current.get(takeId);
+    if (job?.ratio === ratio) return job.done;
+    if (!ctx) return Promise.resolve();
+
+    stretcherRef.current ??= createStretcher();
+    console.log(`⏳ Stretching ${track.name} to x${ratio.toFixed(3)} - varispeed until it's ready`);
+    const done = stretcherRef.current.stretch(ctx, audioBuffer, ratio).then(
+      (buffer) => {
+        if (stretchJobsRef.current.get(takeId)?.ratio !== ratio || audioBuffersRef.current.get(takeId) !== audioBuffer) return;
+        stretchedBuffersRef.current.set(takeId, { ratio, buffer });
+        handlersRef.current.swapInStretchedLoop(track.id);
+      },
+      // The job stays recorded, so a failed stretch keeps playing varispeed instead of being retried
+      (err) => console.error(`❌ Failed to stretch ${track.name}:`, err)
+    );
+    stretchJobsRef.current.set(takeId, { ratio, done });
+    return done;
+  }
+
+  // A finished stretch replaces the varispeed stand-in at the next launch point
+  function swapInStretchedLoop(trackId: number) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track || !isPlayingAll || !sourceNodesRef.current.has(trackId)) return;
+    const playingKey = loopCacheRef.current.get(trackId)?.key;
+    if (!getPreparedLoop(track) || loopCacheRef.current.get(trackId)?.key === playingKey) return;
+    playTrackWebAudio(track, getEffectiveGain(track, tracks), getTrackPan(track), getLaunchTime());
+  }
+
+  // Exports render the stretched audio, not the stand-in, so they wait for any stretch still running
+  async function waitForStretches(playableTracks: Track[]): Promise<void> {
+    await Promise.all(playableTracks.map((track) => {
+      getPreparedLoop(track);
+      return stretchJobsRef.current.get(getActiveTakeId(track))?.done;
+    }));
+  }
+
+  function getActiveBuffer(track: Track): AudioBuffer | undefined {
+    return audioBuffersRef.current.get(getActiveTakeId(track));
+  }
+
+  // Position of a playing track in its original audio, for the waveform playhead
+  function getTrackPlayhead(track: Track): number | null {
+    const ctx = audioContextRef.current;
+    const clock = transportRef.current?.getClock();
+    const cached = loopCacheRef.current.get(track.id);
+    const original = getActiveBuffer(track);
+    if (!ctx || !clock || !cached || !original || !sourceNodesRef.current.has(track.id)) return null;
+    // Quality-mode loops are a stretched copy - map back onto the original's timeline
+    const scale = original.duration / cached.loop.buffer.duration;
+    return getLoopOffset(clock, ctx.currentTime, cached.loop, cached.playbackRate) * scale;
+  }
+
+  // Play track with Web Audio API (seamless looping), in phase with the transport
+  function playTrackWebAudio(track: Track, gain: number = 1, pan: number = 0, at?: number): void {
+    const transport = transportRef.current;
+    if (!audioContextRef.current || !masterGainRef.current || !transport || !webAudioSupported) return;
+
+    const trackId = track.id;
+    const prepared = getPreparedLoop(track);
+    if (!prepared) return;
+    const { loop, playbackRate } = prepared;
+    if (!transport.isRunning()) transport.start(currentBPM);
+
+    // A source being replaced keeps playing until the new one takes over
+    const previous = sourceNodesRef.current.get(trackId);
+    const previousChain = trackChainsRef.current.get(trackId);
 
     // Create new source node
     const source = audioContextRef.current.createBufferSource();
-    source.buffer = audioBuffer;
+    source.buffer = loop.buffer;
     source.loop = true; // Web Audio seamless loop!
 
-    // Limit loop to 8-10 seconds for diverse, consistent looping
-    const MAX_LOOP_DURATION = 10.0;
-    const MIN_LOOP_DURATION = 8.0;
-
-    if (audioBuffer.duration > MAX_LOOP_DURATION) {
-      source.loopStart = 0;
-      source.loopEnd = MAX_LOOP_DURATION;
-      console.log(`🔄 Limited Web Audio diverse loop for track ${trackId} to ${MAX_LOOP_DURATION}s (original: ${audioBuffer.duration.toFixed(2)}s)`);
-    } else if (audioBuffer.duration >= MIN_LOOP_DURATION) {
-      console.log(`✅ Web Audio diverse loop for track ${trackId}: ${audioBuffer.duration.toFixed(2)}s (perfect range)`);
-    }
-
-    // Create gain node for volume control
-    const gainNode = audioContextRef.current.createGain();
-    gainNode.gain.value = muted ? 0 : 1;
+    // Whole bars at the track's tempo, starting after any leading silence
+    source.loopStart = loop.start;
+    source.loopEnd = loop.end;
+    source.playbackRate.value = playbackRate;
 
-    // Connect: source -> gain -> destination
-    source.connect(gainNode);
-    gainNode.connect(audioContextRef.current.destination);
+    // Connect: source -> track chain (normalization, effects, gain, panner) -> master -> limiter,
+    // plus the reverb send - the same chain as the offline export
+    const chain = createTrackChain(
+      audioContextRef.current,
+      { gain, pan, normalization: getTrackNormalization(track), effects: getTrackEffects(track), bpm: currentBPM },
+      masterGainRef.current,
+      reverbRef.current?.input
+    );
+    source.connect(chain.input);
 
     // Store references
     sourceNodesRef.current.set(trackId, source);
-    gainNodesRef.current.set(trackId, gainNode);
+    trackChainsRef.current.set(trackId, chain);
+    playingTakesRef.current.set(trackId, getActiveTakeId(track));
 
-    // Start playing
-    source.start();
-    console.log(`🎵 Started Web Audio seamless loop for track ${trackId}`);
+    // At the transport anchor (or in phase, when joining) - leading silence is skipped on the first pass too
+    appliedAudibleRef.current.delete(trackId);
+    const when = transport.schedule(source, loop, playbackRate, at);
+    if (previous) {
+      previous.onended = () => previousChain?.disconnect();
+      previous.stop(when);
+    }
+    console.log(`🎵 Scheduled Web Audio seamless loop for track ${trackId} at ${when.toFixed(3)}s`);
   }
   
   // Stop track with Web Audio API
   function stopTrackWebAudio(trackId: number): void {
     const source = sourceNodesRef.current.get(trackId);
     if (source) {
+      source.onended = null;
       source.stop();
       sourceNodesRef.current.delete(trackId);
-      gainNodesRef.current.delete(trackId);
+      playingTakesRef.current.delete(trackId);
+      trackChainsRef.current.get(trackId)?.disconnect();
+      trackChainsRef.current.delete(trackId);
       console.log(`⏹️ Stopped Web Audio track ${trackId}`);
     }
   }
   
-  // Toggle mute with Web Audio API
-  function toggleMuteWebAudio(trackId: number, muted: boolean): void {
-    const gainNode = gainNodesRef.current.get(trackId);
-    if (gainNode) {
-      gainNode.gain.value = muted ? 0 : 1;
+  function getLaunchTime(): number {
+    const ctx = audioContextRef.current;
+    return transportRef.current?.getLaunchTime(launchQuantize, timeSignature) ?? ctx?.currentTime ?? 0;
+  }
+
+  // Push mixer state (volume, pan, mute, solo, master) onto live nodes and HTML5 elements
+  function applyMixer(currentTracks: Track[], master: number, bpm: number): void {
+    const ctx = audioContextRef.current;
+    if (ctx && masterGainRef.current) {
+      masterGainRef.current.gain.setTargetAtTime(master, ctx.currentTime, PARAM_SMOOTHING);
+    }
+
+    currentTracks.forEach((track) => {
+      const chain = trackChainsRef.current.get(track.id);
+      if (ctx && chain) {
+        // Mute and solo flips land on the next launch point; volume and pan follow the slider immediately
+        const audible = isTrackAudible(track, currentTracks);
+        const wasAudible = appliedAudibleRef.current.get(track.id);
+        appliedAudibleRef.current.set(track.id, audible);
+        const at = wasAudible !== undefined && wasAudible !== audible ? getLaunchTime() : ctx.currentTime;
+        chain.gain.gain.setTargetAtTime(getEffectiveGain(track, currentTracks), at, PARAM_SMOOTHING);
+        // Takes measured after they started playing pick up their normalization here
+        chain.normalization.gain.setTargetAtTime(getTrackNormalization(track), ctx.currentTime, PARAM_SMOOTHING);
+        chain.setEffects(getTrackEffects(track), bpm, PARAM_SMOOTHING);
+        chain.panner.pan.setTargetAtTime(getTrackPan(track), ctx.currentTime, PARAM_SMOOTHING);
+      }
+
+      // HTML5 fallback has no panner or effects - volume and audibility only
+      const audio = audioRefs.current.get(track.id);
+      if (audio) {
+        audio.muted = !isTrackAudible(track, currentTracks);
+        audio.volume = clamp(getTrackVolume(track) * getTrackNormalization(track) * master, 0, 1);
+      }
+    });
+  }
+
+  // Only mixer changes (and the tempo the delays follow) re-apply; a new launch setting just affects the next toggle
+  useEffect(() => {
+    handlersRef.current.applyMixer(tracks, masterVolume, currentBPM);
+  }, [tracks, masterVolume, currentBPM]);
+
+  // Created on first use; settles each job's state into generationJobs for the UI
+  function getGenerationQueue(): GenerationQueue {
+    generationQueueRef.current ??= createGenerationQueue({
+      concurrency: generationConcurrency,
+      onJobChange: (id, state) => setGenerationJobs(prev => {
+        const next = { ...prev };
+        if (state) next[id] = state;
+        else delete next[id];
+        return next;
+      }),
+    });
+    return generationQueueRef.current;
+  }
+
+  function cancelGeneration(trackId: number) {
+    if (generationQueueRef.current?.cancel(trackId)) {
+      console.log(`⏹️ Cancelling generation for track ${trackId}`);
     }
   }
 
-  async function generateTrack(inst: string, style?: string): Promise<string | null> {
+  function cancelAllGenerations() {
+    Object.keys(generationJobs).forEach(id => cancelGeneration(Number(id)));
+  }
+
+  async function generateTrack(inst: string, style?: string, replacingTrackId?: number, signal?: AbortSignal): Promise<GeneratedAudio> {
     try {
       const displayName = style ? `${style} ${inst}` : inst;
       console.log(`🎵 Generating ${displayName} track...`);
-      console.log(`🔧 Using API endpoint: /v1/music/compose`);
+      console.log(`🔧 Using API endpoint: /api/generate`);
       
       // Build context from existing tracks
       const existingInstruments = tracks
-        .filter(t => t.url) // Only successful tracks
+        .filter(t => t.url && t.id !== replacingTrackId) // Only successful tracks, minus the one being replaced
         .map(t => t.name.toLowerCase());
       
-      let prompt = "";
-      
-      const styleDescription = style ? ` in ${style} style` : '';
-      const instrumentWithStyle = style ? `${style} ${inst.toLowerCase()}` : inst.toLowerCase();
-
-      // Different complexity instructions for drums vs melodic instruments
-      const isDrumInstrument = inst.toLowerCase().includes('drum') || inst.toLowerCase().includes('maracas');
-      const complexityInstruction = isDrumInstrument
-        ? "Use a minimum of 10 different drum sounds/percussion elements throughout the loop - include kick, snare, hi-hats (open/closed), crash cymbals, ride, toms (high/mid/low), floor tom, rim shots, and other percussion elements to create maximum rhythmic and timbral diversity."
-        : "Use a minimum of 10 different notes/pitches throughout the loop - include various octaves, chord tones, passing notes, chromatic runs, arpeggios, and melodic intervals to create maximum harmonic and melodic diversity.";
-      
-      if (existingInstruments.length === 0) {
-        // First track - establish the groove
-        prompt = `Generate a diverse 10 second SOLO ${instrumentWithStyle} loop at ${currentBPM} BPM, 4/4 time signature${styleDescription}. Create a VARIED and INTERESTING loopable pattern with multiple musical phrases, dynamic changes, fills, and variations - NOT repetitive. The loop should be musically rich and diverse, containing at least 2-4 different patterns or variations within the 8-10 seconds. MUSICAL COMPLEXITY: ${complexityInstruction} Avoid repetitive single ${isDrumInstrument ? 'drum hits' : 'notes'} or simple patterns. CRITICAL: ONLY ${inst.toLowerCase().toUpperCase()} SOUND - absolutely NO other instruments, NO backing tracks, NO accompaniment, NO drums (unless this IS drums), NO bass (unless this IS bass), NO piano, NO guitar, NO vocals, NO harmony instruments. This must be a COMPLETELY ISOLATED ${inst.toLowerCase()} track - pure ${inst.toLowerCase()} sound only, as if recorded in isolation for layering. START IMMEDIATELY from first millisecond - no count-in, no intro, no drum stick clicks, no silence at beginning. Begin playing the ${instrumentWithStyle} groove from the very first moment. Create MUSICAL DIVERSITY within the loop - different patterns, fills, dynamics, and use ${isDrumInstrument ? '10+ different drum/percussion sounds' : '10+ different notes/pitches'}. IMPORTANT: Keep it 8-10 seconds long. Maintain CONSISTENT VOLUME throughout - no fade-in, no fade-out, no volume changes. End abruptly at full volume for seamless looping. DURATION: 8-10 seconds with maximum musical and ${isDrumInstrument ? 'rhythmic/timbral' : 'melodic/harmonic'} variation. SOLO INSTRUMENT ONLY.`;
-      } else {
-        // Additional tracks - match existing groove
-        const contextInstruments = existingInstruments.join(", ");
-        prompt = `Generate a diverse 10 second SOLO ${instrumentWithStyle} loop that complements existing ${contextInstruments} at ${currentBPM} BPM, 4/4 time${styleDescription}. Create a VARIED and INTERESTING loopable pattern with multiple musical phrases, counter-melodies, harmonic variations, and complementary fills - NOT repetitive. The loop should be musically rich and diverse, containing at least 2-4 different patterns or variations within the 8-10 seconds that work with existing tracks. MUSICAL COMPLEXITY: ${complexityInstruction} while complementing existing instruments. Avoid repetitive single ${isDrumInstrument ? 'drum hits' : 'notes'} or simple patterns. CRITICAL: ONLY ${inst.toLowerCase().toUpperCase()} SOUND - absolutely NO other instruments mixed in, NO backing tracks, NO accompaniment, NO drums (unless this IS drums), NO bass (unless this IS bass), NO piano, NO guitar, NO vocals, NO harmony instruments. This must be a COMPLETELY ISOLATED ${inst.toLowerCase()} track - pure ${inst.toLowerCase()} sound only, recorded in isolation for perfect layering with other tracks. START IMMEDIATELY from first millisecond - no count-in, no intro, no drum stick clicks, no silence at beginning. Begin playing the ${instrumentWithStyle} part from the very first moment. Create MUSICAL DIVERSITY within the loop - different patterns, complementary fills, harmonic variations, and use ${isDrumInstrument ? '10+ different drum/percussion sounds' : '10+ different notes/pitches'}. IMPORTANT: Keep it 8-10 seconds long. Maintain CONSISTENT VOLUME throughout - no fade-in, no fade-out, no volume changes. End abruptly at full volume for seamless looping. DURATION: 8-10 seconds with maximum musical and ${isDrumInstrument ? 'rhythmic/timbral' : 'melodic/harmonic'} variation. SOLO INSTRUMENT ONLY.`;
-      }
-      
       // Calculate optimal duration for current BPM to get complete musical phrases
-      const optimalDurationSeconds = calculateOptimalDuration(currentBPM);
+      const optimalDurationSeconds = calculateOptimalDuration(currentBPM, timeSignature);
 
-      // Force consistent duration - 8-10 seconds for diverse loops
-      const CONSISTENT_DURATION = 10.0; // Target 10 second duration for diverse loops
+      // Whole bars plus one pulse of tail, so there's material after loopEnd for the seam crossfade
+      const CONSISTENT_DURATION = optimalDurationSeconds + secondsPerPulse(currentBPM, timeSignature);
       const durationMs = Math.round(CONSISTENT_DURATION * 1000);
       
-      const requestBody = {
-        prompt: prompt,
-        music_length_ms: durationMs, // Dynamic duration based on BPM for complete phrases
-        model_id: "music_v1", // Explicitly specify model
-        output_format: "mp3_44100_128" // Explicitly specify output format
+      const request: GenerateRequest = {
+        instrument: inst,
+        style,
+        bpm: currentBPM,
+        durationMs,
+        timeSignature,
+        existingInstruments,
       };
 
-      console.log(`🎵 ElevenLabs Request for SOLO ${inst}:`);
-      console.log(`   - BPM: ${currentBPM}`);
+      console.log(`🎵 Generation request for SOLO ${inst}:`);
+      console.log(`   - BPM: ${currentBPM}, time signature: ${formatTimeSignature(timeSignature)}`);
       console.log(`   - Optimal duration (calculated): ${optimalDurationSeconds}s`);
-      console.log(`   - Target duration: ${CONSISTENT_DURATION}s (${durationMs}ms) - diverse loop`);
-      console.log(`   - ISOLATION: Only ${inst.toUpperCase()} sound, no other instruments`);
-      console.log(`   - COMPLEXITY: ${isDrumInstrument ? '10+ different drum/percussion sounds' : '10+ different notes/pitches'}`);
-      console.log(`   - Request includes: musical diversity, variations, fills, complexity`);
-      console.log(`   - Request body:`, requestBody);
+      console.log(`   - Target duration: ${CONSISTENT_DURATION.toFixed(2)}s (${durationMs}ms) - whole bars + 1 pulse tail`);
+      console.log(`   - Request body:`, request);
       
-      const response = await fetch("https://api.elevenlabs.io/v1/music/compose", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "xi-api-key": process.env.NEXT_PUBLIC_ELEVEN_API_KEY || "",
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("API Error:", response.status, errorText);
-        throw new Error(`API returned ${response.status}: ${errorText}`);
-      }
-
-      console.log(`📊 ElevenLabs Response Headers:`, Object.fromEntries(response.headers.entries()));
-      
-      const blob = await response.blob();
+      const generated = await requestGeneration(request, signal);
+      const { blob, metadata } = generated;
       console.log(`📁 Generated blob size: ${blob.size} bytes (${(blob.size / 1024).toFixed(2)} KB)`);
-
-      const audioUrl = URL.createObjectURL(blob);
+      if (metadata) {
+        console.log(`🔌 Generated by ${metadata.provider} (${metadata.model})`);
+      }
 
       // Check actual audio duration and trim if needed
-      const tempAudio = new Audio(audioUrl);
+      const tempAudio = new Audio(URL.createObjectURL(blob));
       tempAudio.addEventListener('loadedmetadata', () => {
         const actualDuration = tempAudio.duration;
+        URL.revokeObjectURL(tempAudio.src);
         console.log(`⏱️ ${inst} track durations:`);
         console.log(`   - Requested: ${CONSISTENT_DURATION.toFixed(2)}s`);
         console.log(`   - Actual: ${actualDuration.toFixed(2)}s`);
         console.log(`   - Difference: ${(actualDuration - CONSISTENT_DURATION).toFixed(2)}s`);
 
         if (actualDuration > CONSISTENT_DURATION + 2) {
-          console.warn(`⚠️ Track ${inst} is too long (${actualDuration.toFixed(2)}s), will be limited to ${CONSISTENT_DURATION}s diverse loop during playback`);
+          console.warn(`⚠️ Track ${inst} is too long (${actualDuration.toFixed(2)}s), will be limited to ${optimalDurationSeconds}s bar-aligned loop during playback`);
         } else if (actualDuration >= 8 && actualDuration <= 12) {
           console.log(`✅ Track ${inst} duration is good for diverse looping: ${actualDuration.toFixed(2)}s`);
         }
@@ -310,14 +711,20 @@ export default function GrooveApp() {
 
       console.log(`✅ ${inst} track generated successfully`);
       
-      return audioUrl;
+      return generated;
     } catch (err) {
-      console.error("Generation error for", inst, ":", err);
-      return null;
+      if (isAbortError(err)) {
+        console.log(`⏹️ Generation of ${inst} cancelled`);
+      } else if (err instanceof GenerateError) {
+        console.error(`Generation error for ${inst} [${err.code}]:`, err.message);
+      } else {
+        console.error("Generation error for", inst, ":", err);
+      }
+      throw err;
     }
   }
 
-  async function addTrack(inst: string, style?: string) {
+  function addTrack(inst: string, style?: string) {
     const displayName = style ? `${style} ${inst}` : inst;
     console.log(`🎹 addTrack called for: ${displayName}`);
     console.log(`🎹 Current tracks count: ${tracks.length}`);
@@ -325,39 +732,78 @@ export default function GrooveApp() {
     
     if (!tracks.find((t) => t.name === displayName)) {
       // Add track with loading state first
-      const loadingTrack: Track = { name: displayName, id: Date.now(), url: null, muted: false };
+      const loadingTrack: Track = { name: displayName, id: Date.now(), url: null, instrument: inst, style, muted: false, volume: 1, pan: 0, solo: false, bpm: currentBPM, timeSignature };
       console.log(`🎹 Adding loading track:`, loadingTrack);
       setTracks(prev => [...prev, loadingTrack]);
-      setHistory(prev => [...prev, `🎵 Adding ${displayName}...`]);
-      
-      // Generate audio
-      const url = await generateTrack(inst, style);
-      
-      // Update track with generated audio or error state
-      console.log(`🎹 Updating track ${loadingTrack.id} with URL:`, url ? 'SUCCESS' : 'FAILED');
-      setTracks(prev => {
-        console.log(`🎹 Before update - tracks count: ${prev.length}`);
-        const updated = prev.map(t => 
-          t.id === loadingTrack.id 
-            ? { ...t, url } 
-            : t
-        );
-        console.log(`🎹 After update - tracks count: ${updated.length}`);
-        console.log(`🎹 Updated tracks:`, updated.map(t => `${t.name}(${t.url ? 'loaded' : 'loading'})`));
-        return updated;
-      });
-      
-      // Load audio buffer for Web Audio API if available
-      if (url && webAudioSupported) {
-        await loadAudioBuffer(loadingTrack.id, url);
+      runTrackGeneration(loadingTrack, tracks.length);
+    }
+  }
+
+  // Queues audio for a track that has none yet - a new one, or a failed one being retried
+  async function runTrackGeneration(loadingTrack: Track, index: number) {
+    const displayName = loadingTrack.name;
+    const inst = loadingTrack.instrument ?? displayName;
+    const pendingEntryId = logNote(`🎵 Adding ${displayName}...`);
+
+    let generated: GeneratedAudio;
+    try {
+      generated = await getGenerationQueue().enqueue(loadingTrack.id, (signal) =>
+        generateTrack(inst, loadingTrack.style, loadingTrack.id, signal)
+      );
+    } catch (err) {
+      if (isAbortError(err)) {
+        // A cancelled track was never really added
+        setTracks(prev => prev.filter(t => t.id !== loadingTrack.id));
+        resolveHistoryEntry(pendingEntryId, { type: 'note', message: `⏹️ Cancelled ${displayName}` });
+        return;
       }
-      
-      // Update history
-      setHistory(prev => [
-        ...prev.slice(0, -1), // Remove loading message
-        url ? `✅ ${displayName} added successfully` : `❌ Failed to generate ${displayName}`
-      ]);
+      const message = err instanceof Error ? err.message : String(err);
+      setTracks(prev => prev.map(t => (t.id === loadingTrack.id ? { ...t, generationError: message } : t)));
+      resolveHistoryEntry(pendingEntryId, { type: 'note', message: `❌ Failed to generate ${displayName}: ${message}` });
+      return;
+    }
+
+    const { blob } = generated;
+    const url = URL.createObjectURL(blob);
+
+    // Persist the MP3 bytes so the track survives a reload
+    try {
+      await saveTrackAudio(loadingTrack.id, blob);
+    } catch (err) {
+      console.warn(`⚠️ Failed to store audio for ${displayName}:`, err);
+    }
+    
+    // Update track with generated audio
+    console.log(`🎹 Updating track ${loadingTrack.id} with URL: SUCCESS`);
+    const generatedTrack: Track = { ...loadingTrack, url, prompt: generated.metadata?.prompt, generationError: undefined };
+    setTracks(prev => {
+      console.log(`🎹 Before update - tracks count: ${prev.length}`);
+      const updated = prev.map(t => 
+        t.id === loadingTrack.id 
+          ? { ...t, url, prompt: generatedTrack.prompt, generationError: undefined } 
+          : t
+      );
+      console.log(`🎹 After update - tracks count: ${updated.length}`);
+      console.log(`🎹 Updated tracks:`, updated.map(t => `${t.name}(${t.url ? 'loaded' : 'loading'})`));
+      return updated;
+    });
+    
+    // Load audio buffer for Web Audio API if available
+    if (webAudioSupported) {
+      await loadAudioBuffer(loadingTrack.id, url);
     }
+    
+    // Update history - replace the loading message with the outcome
+    resolveHistoryEntry(pendingEntryId, { type: 'add', track: generatedTrack, index });
+  }
+
+  function retryTrack(trackId: number) {
+    const index = tracks.findIndex(t => t.id === trackId);
+    const track = tracks[index];
+    if (!track || track.url || generationQueueRef.current?.has(trackId)) return;
+    const retrying: Track = { ...track, generationError: undefined, bpm: currentBPM, timeSignature };
+    setTracks(prev => prev.map(t => (t.id === trackId ? retrying : t)));
+    runTrackGeneration(retrying, index);
   }
 
   async function playAll() {
@@ -401,33 +847,28 @@ export default function GrooveApp() {
         console.log(`🎧 Starting ${playableTracks.length} tracks with Web Audio API`);
         const startTime = performance.now();
 
-        // Check if audio buffers are loaded
-        let buffersLoaded = 0;
-        for (const track of playableTracks) {
-          if (audioBuffersRef.current.has(track.id)) {
-            buffersLoaded++;
-          } else if (track.url) {
-            // Load buffer if not already loaded
-            console.log(`📥 Loading missing audio buffer for ${track.name}`);
-            await loadAudioBuffer(track.id, track.url);
-            if (audioBuffersRef.current.has(track.id)) {
-              buffersLoaded++;
-            }
-          }
-        }
+        // Decode and prepare every loop before the clock starts - nothing slow may run between start() calls
+        await ensureBuffersLoaded(playableTracks);
+        playableTracks.forEach(track => getPreparedLoop(track));
+        const buffersLoaded = playableTracks.filter(t => audioBuffersRef.current.has(getActiveTakeId(t))).length;
 
         console.log(`📊 Audio buffers loaded: ${buffersLoaded}/${playableTracks.length}`);
 
+        // Restarting the groove starts a fresh clock at bar 1, after the count-in if there is one
+        tracks.forEach(track => stopTrackWebAudio(track.id));
+        transportRef.current?.start(currentBPM, getCountInBeats(countInBars, timeSignature));
+        metronomeRef.current?.start();
+
         // Play tracks that have loaded buffers
         playableTracks.forEach((track) => {
-          if (track.url && audioBuffersRef.current.has(track.id)) {
-            playTrackWebAudio(track.id, !!track.muted);
+          if (track.url && audioBuffersRef.current.has(getActiveTakeId(track))) {
+            playTrackWebAudio(track, getEffectiveGain(track, tracks), getTrackPan(track));
           } else {
             console.warn(`⚠️ Cannot play ${track.name}: buffer not loaded`);
           }
         });
 
-        console.log(`🎵 Started ${buffersLoaded} Web Audio tracks synchronously at ${startTime}`);
+        console.log(`🎵 Scheduled ${buffersLoaded} Web Audio tracks on one clock (requested at ${startTime})`);
       } else {
         // Fallback to HTML5 audio
         console.log(`🎵 Using HTML5 audio fallback for ${playableTracks.length} tracks`);
@@ -438,7 +879,8 @@ export default function GrooveApp() {
           const audio = refs.get(t.id);
           if (audio && t.url) {
             audio.currentTime = 0;
-            audio.muted = !!t.muted;
+            audio.muted = !isTrackAudible(t, tracks);
+            audio.volume = clamp(getTrackVolume(t) * getTrackNormalization(t) * masterVolume, 0, 1);
             audioElements.push(audio);
           }
         });
@@ -492,6 +934,8 @@ export default function GrooveApp() {
 
   function stopAll() {
     setIsPlayingAll(false);
+    transportRef.current?.stop();
+    metronomeRef.current?.stop();
     
     // ALWAYS stop both Web Audio AND HTML5 audio to prevent conflicts
     
@@ -525,214 +969,842 @@ export default function GrooveApp() {
     console.log(`⏹️ Stopped all HTML5 tracks`);
   }
 
+  // Make sure every playable track has a decoded buffer (e.g. right after a reload)
+  async function ensureBuffersLoaded(playableTracks: Track[]): Promise<void> {
+    for (const track of playableTracks) {
+      const takeId = getActiveTakeId(track);
+      if (failedTakesRef.current.has(takeId)) continue;
+      if (track.url && !audioBuffersRef.current.has(takeId)) {
+        console.log(`📥 Loading missing audio buffer for ${track.name}`);
+        await loadAudioBuffer(takeId, track.url);
+      }
+      // Every take is measured once, the first time its audio is decoded
+      const buffer = audioBuffersRef.current.get(takeId);
+      if (buffer && (!track.tempoAnalysis || !track.loudness)) {
+        try {
+          attachTakeAnalysis(takeId, {
+            tempoAnalysis: track.tempoAnalysis ?? measureTempo(track.name, buffer, track.bpm ?? currentBPM, track.timeSignature ?? timeSignature),
+            loudness: track.loudness ?? measureTakeLoudness(track.name, buffer),
+          });
+        } catch (err) {
+          console.error(`❌ Failed to analyze ${track.name}:`, err);
+          failedTakesRef.current.add(takeId);
+        }
+      }
+    }
+  }
+
+  // Render every audible track offline with the current mixer state and download a WAV
+  async function exportMix() {
+    if (!webAudioSupported || !audioContextRef.current) {
+      alert("Exporting needs Web Audio support in this browser.");
+      return;
+    }
+
+    const playableTracks = tracks.filter(t => t.url);
+    setIsExporting(true);
+    try {
+      await ensureBuffersLoaded(playableTracks);
+      await waitForStretches(playableTracks);
+
+      const mixTracks: MixdownTrack[] = playableTracks
+        .filter(track => getEffectiveGain(track, tracks) > 0)
+        .flatMap(track => {
+          const prepared = getPreparedLoop(track);
+          if (!prepared) return [];
+          return [{
+            buffer: prepared.loop.buffer,
+            loopStart: prepared.loop.start,
+            loopEnd: prepared.loop.end,
+            playbackRate: prepared.playbackRate,
+            gain: getEffectiveGain(track, tracks),
+            pan: getTrackPan(track),
+            normalization: getTrackNormalization(track),
+            effects: getTrackEffects(track),
+            bpm: currentBPM,
+          }];
+        });
+
+      if (mixTracks.length === 0) {
+        alert("Nothing to export - all tracks are muted or still loading.");
+        return;
+      }
+
+      const blob = await exportMixdownWav(mixTracks, { ...mixdownOptions, masterGain: masterVolume });
+      downloadBlob(blob, `groove-${currentBPM}bpm-${mixdownOptions.bitDepth}bit.wav`);
+      logNote(`💿 Exported mix (${mixTracks.length} tracks, ${mixdownOptions.repetitions}x loop)`);
+    } catch (err) {
+      console.error("❌ Mix export failed:", err);
+      logNote(`❌ Mix export failed`);
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  async function exportStems() {
+    if (!webAudioSupported || !audioContextRef.current) {
+      alert("Exporting needs Web Audio support in this browser.");
+      return;
+    }
+
+    const playableTracks = tracks.filter(t => t.url);
+    setIsExporting(true);
+    try {
+      await ensureBuffersLoaded(playableTracks);
+      await waitForStretches(playableTracks);
+
+      // Every track is exported, muted or not - mute/solo state goes into the manifest
+      const stems: StemSource[] = playableTracks.flatMap(track => {
+        const prepared = getPreparedLoop(track);
+        if (!prepared) return [];
+        return [{
+          track,
+          loop: {
+            buffer: prepared.loop.buffer,
+            loopStart: prepared.loop.start,
+            loopEnd: prepared.loop.end,
+            playbackRate: prepared.playbackRate,
+          },
+          bars: prepared.loop.bars,
+        }];
+      });
+
+      if (stems.length === 0) {
+        alert("Nothing to export - tracks are still loading.");
+        return;
+      }
+
+      const blob = await exportStemsZip(stems, { bpm: currentBPM, timeSignature, masterVolume }, mixdownOptions.bitDepth);
+      downloadBlob(blob, `groove-${currentBPM}bpm-stems.zip`);
+      logNote(`📦 Exported ${stems.length} stems`);
+    } catch (err) {
+      console.error("❌ Stems export failed:", err);
+      logNote(`❌ Stems export failed`);
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  // Mixer changes only update state - applyMixer syncs the audio graph
   function toggleMute(trackId: number) {
     const track = tracks.find(t => t.id === trackId);
-    const newMutedState = !track?.muted;
-    
-    setTracks((prev) => prev.map((t) => (t.id === trackId ? { ...t, muted: newMutedState } : t)));
-    
-    if (isPlayingAll && webAudioSupported) {
-      // Toggle mute with Web Audio API when playing all
-      toggleMuteWebAudio(trackId, newMutedState);
-    } else {
-      // Fallback to HTML5 audio or when not playing all
-      const audio = audioRefs.current.get(trackId);
-      if (audio) audio.muted = newMutedState;
-    }
+    if (!track) return;
+    setTracks((prev) => prev.map((t) => (t.id === trackId ? { ...t, muted: !t.muted } : t)));
+    logAction({ type: 'mute', trackId, name: track.name, from: !!track.muted, to: !track.muted });
   }
 
-  function removeTrack(trackId: number) {
+  function toggleSolo(trackId: number) {
     const track = tracks.find(t => t.id === trackId);
-    if (track) {
-      // Stop Web Audio track if it's playing
-      if (webAudioSupported) {
-        stopTrackWebAudio(trackId);
-        audioBuffersRef.current.delete(trackId);
-      }
-      
-      // Stop and clean up HTML5 audio
-      const audio = audioRefs.current.get(trackId);
-      const handler = loopHandlers.current.get(trackId);
-      
-      if (audio) {
-        audio.pause();
-        audio.currentTime = 0;
-        
-        // Remove loop handler
-        if (handler) {
-          audio.removeEventListener('ended', handler);
-          loopHandlers.current.delete(trackId);
-        }
-        
-        if (track.url) {
-          URL.revokeObjectURL(track.url); // Clean up blob URL
+    if (!track) return;
+    setTracks((prev) => prev.map((t) => (t.id === trackId ? { ...t, solo: !t.solo } : t)));
+    logAction({ type: 'mixer', trackId, name: track.name, param: 'solo', from: !!track.solo, to: !track.solo });
+  }
+
+  function setTrackVolume(trackId: number, volume: number) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    const next = clamp(volume, 0, 1);
+    setTracks((prev) => prev.map((t) => (t.id === trackId ? { ...t, volume: next } : t)));
+    logAction({ type: 'mixer', trackId, name: track.name, param: 'volume', from: getTrackVolume(track), to: next });
+  }
+
+  function setTrackPan(trackId: number, pan: number) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    const next = clamp(pan, -1, 1);
+    setTracks((prev) => prev.map((t) => (t.id === trackId ? { ...t, pan: next } : t)));
+    logAction({ type: 'mixer', trackId, name: track.name, param: 'pan', from: getTrackPan(track), to: next });
+  }
+
+  function setTrackEffect<P extends EffectParam>(trackId: number, param: P, value: TrackEffects[P]) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    const from = getTrackEffects(track);
+    const to = { ...from, [param]: value };
+    setTracks((prev) => prev.map((t) => (t.id === trackId ? { ...t, effects: to } : t)));
+    logAction({ type: 'effects', trackId, name: track.name, param, from, to });
+  }
+
+  function changeMasterVolume(volume: number) {
+    const next = clamp(volume, 0, 1);
+    setMasterVolume(next);
+    logAction({ type: 'master', from: masterVolume, to: next });
+  }
+
+  function logAction(action: HistoryAction): number {
+    const entry = createHistoryEntry(action);
+    setHistory(prev => pushEntry(prev, entry));
+    return entry.id;
+  }
+
+  function logNote(message: string): number {
+    return logAction({ type: 'note', message });
+  }
+
+  function resolveHistoryEntry(entryId: number, action: HistoryAction) {
+    setHistory(prev => replaceEntry(prev, entryId, action));
+  }
+
+  // Applies an action in either direction. Returns the action to keep in the log, with a fresh
+  // snapshot of any track that was taken out so it comes back exactly as it was last seen.
+  function applyHistoryAction(action: HistoryAction, direction: 'undo' | 'redo'): HistoryAction {
+    const forward = direction === 'redo';
+    switch (action.type) {
+      case 'add':
+      case 'remove': {
+        if ((action.type === 'add') === forward) {
+          reattachTrack(action.track, action.index);
+          return action;
         }
+        const index = tracks.findIndex(t => t.id === action.track.id);
+        if (index === -1) return action;
+        const current = tracks[index];
+        detachTrack(current);
+        setTracks(prev => prev.filter(t => t.id !== current.id));
+        return { ...action, track: current, index };
       }
-      audioRefs.current.delete(trackId);
-      
-      // Remove from tracks
-      setTracks(prev => prev.filter(t => t.id !== trackId));
-      setHistory(prev => [...prev, `🗑️ Removed ${track.name}`]);
-      
-      console.log(`🗑️ Removed track: ${track.name}`);
+      case 'mute': {
+        const muted = forward ? action.to : action.from;
+        setTracks(prev => prev.map(t => (t.id === action.trackId ? { ...t, muted } : t)));
+        return action;
+      }
+      case 'mixer': {
+        const value = forward ? action.to : action.from;
+        setTracks(prev => prev.map(t => (t.id === action.trackId ? { ...t, [action.param]: value } : t)));
+        return action;
+      }
+      case 'effects': {
+        const effects = forward ? action.to : action.from;
+        setTracks(prev => prev.map(t => (t.id === action.trackId ? { ...t, effects } : t)));
+        return action;
+      }
+      case 'master':
+        setMasterVolume(forward ? action.to : action.from);
+        return action;
+      case 'bpm':
+        setCurrentBPM(forward ? action.to : action.from);
+        return action;
+      case 'timeSignature':
+        setTimeSignature(forward ? action.to : action.from);
+        return action;
+      case 'take': {
+        const takeId = forward ? action.to : action.from;
+        setTracks(prev => prev.map(t => (t.id === action.trackId ? selectTake(t, takeId) : t)));
+        return action;
+      }
+      case 'note':
+        return action;
+    }
+  }
+
+  function undo() {
+    const entry = getUndoEntry(history);
+    if (!entry) return;
+    const action = applyHistoryAction(entry.action, 'undo');
+    setHistory(prev => markUndone(prev, entry.id, action));
+    console.log(`↩️ Undo: ${describeAction(entry.action)}`);
+  }
+
+  function redo() {
+    const entry = getRedoEntry(history);
+    if (!entry) return;
+    const action = applyHistoryAction(entry.action, 'redo');
+    setHistory(prev => markRedone(prev, entry.id, action));
+    console.log(`↪️ Redo: ${describeAction(entry.action)}`);
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their native undo
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+
+      const target = e.target as HTMLElement | null;
+      const isTextField = target?.isContentEditable
+        || target?.tagName === 'TEXTAREA'
+        || (target instanceof HTMLInputElement && target.type !== 'range' && target.type !== 'checkbox');
+      if (isTextField) return;
+
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Tracks that left the session stay reachable through undo/redo; once they drop out of the log
+  // (redo stack cleared, history trimmed or replaced) their audio is released
+  const detachedTracksRef = useRef<Track[]>([]);
+  useEffect(() => {
+    const detached = getDetachedTracks(history);
+    const keepTakeIds = new Set([...getAllTakeIds(tracks), ...getAllTakeIds(detached)]);
+    detachedTracksRef.current.forEach(track => {
+      if (!detached.some(t => t.id === track.id)) releaseTrackAudio(track, keepTakeIds);
+    });
+    detachedTracksRef.current = detached;
+  }, [history, tracks]);
+
+  // Stops a track's playback and drops its per-track state. Its audio stays alive so undo can bring it back.
+  function detachTrack(track: Track) {
+    const trackId = track.id;
+    // Stop Web Audio track if it's playing
+    if (webAudioSupported) {
+      stopTrackWebAudio(trackId);
+      loopCacheRef.current.delete(trackId);
+    }
+
+    // Stop and clean up HTML5 audio
+    const audio = audioRefs.current.get(trackId);
+    const handler = loopHandlers.current.get(trackId);
+
+    if (audio) {
+      audio.pause();
+      audio.currentTime = 0;
+
+      // Remove loop handler
+      if (handler) {
+        audio.removeEventListener('ended', handler);
+        loopHandlers.current.delete(trackId);
+      }
+    }
+    audioRefs.current.delete(trackId);
+  }
+
+  // Puts a removed track back in its old slot, rejoining the groove if it's playing
+  function reattachTrack(track: Track, index: number) {
+    setTracks(prev => {
+      const next = prev.filter(t => t.id !== track.id);
+      next.splice(Math.min(index, next.length), 0, track);
+      return next;
+    });
+    // If the groove is playing, the launch effect brings it back in on the next bar
+  }
+
+  // Frees blob URLs, decoded buffers and stored audio of takes nothing refers to any more
+  function releaseTrackAudio(track: Track, keepTakeIds: Set<number>) {
+    getTrackTakes(track).forEach((take) => {
+      if (keepTakeIds.has(take.id)) return;
+      if (take.url) {
+        URL.revokeObjectURL(take.url); // Clean up blob URL
+      }
+      audioBuffersRef.current.delete(take.id);
+      stretchedBuffersRef.current.delete(take.id);
+      stretchJobsRef.current.delete(take.id);
+      deleteTrackAudio(take.id).catch((err) => {
+        console.warn(`⚠️ Failed to delete stored audio for ${track.name}:`, err);
+      });
+    });
+    console.log(`🧹 Released audio for ${track.name}`);
+  }
+
+  function removeTrack(trackId: number) {
+    const index = tracks.findIndex(t => t.id === trackId);
+    if (index === -1) return;
+    const track = tracks[index];
+
+    cancelGeneration(trackId);
+    detachTrack(track);
+    setTracks(prev => prev.filter(t => t.id !== trackId));
+    logAction({ type: 'remove', track, index });
+
+    console.log(`🗑️ Removed track: ${track.name}`);
+  }
+
+
+  // Generates a new take in place - the track keeps its slot, mixer settings and older takes
+  async function regenerateTrack(trackId: number) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track || generationQueueRef.current?.has(trackId)) return;
+
+    // Tracks saved before generation params were stored only have their display name
+    const instrument = track.instrument ?? instrumentDefs.find(def => track.name.endsWith(def.name))?.name;
+    if (!instrument) {
+      logNote(`❌ Can't regenerate ${track.name}: unknown instrument`);
+      return;
     }
+
+    const pendingEntryId = logNote(`🔁 Regenerating ${track.name}...`);
+    let generated: GeneratedAudio;
+    try {
+      generated = await getGenerationQueue().enqueue(trackId, (signal) =>
+        generateTrack(instrument, track.style, trackId, signal)
+      );
+    } catch (err) {
+      const message = isAbortError(err)
+        ? `⏹️ Cancelled regenerating ${track.name}`
+        : `❌ Failed to regenerate ${track.name}: ${err instanceof Error ? err.message : String(err)}`;
+      resolveHistoryEntry(pendingEntryId, { type: 'note', message });
+      return;
+    }
+
+    const takeId = Date.now();
+    try {
+      await saveTrackAudio(takeId, generated.blob);
+    } catch (err) {
+      console.warn(`⚠️ Failed to store audio for ${track.name}:`, err);
+    }
+    const url = URL.createObjectURL(generated.blob);
+    const buffer = webAudioSupported ? await loadAudioBuffer(takeId, url) : null;
+
+    const take: TrackTake = {
+      id: takeId,
+      url,
+      style: track.style,
+      prompt: generated.metadata?.prompt,
+      bpm: currentBPM,
+      timeSignature,
+      tempoAnalysis: buffer ? measureTempo(track.name, buffer, currentBPM, timeSignature) : undefined,
+      loudness: buffer ? measureTakeLoudness(track.name, buffer) : undefined,
+      createdAt: takeId,
+    };
+    setTracks(prev => prev.map(t => (t.id === trackId ? { ...addTake(t, take), instrument } : t)));
+    resolveHistoryEntry(pendingEntryId, {
+      type: 'take',
+      trackId,
+      name: track.name,
+      from: getActiveTakeId(track),
+      to: takeId,
+      label: getTakeLabel(getTrackTakes(track).length),
+      regenerated: true,
+    });
+  }
+
+  // Timing edits (tempo corrections, loop points) belong to the active take.
+  // A playing track picks up the new loop on the next launch point, in phase.
+  function updateActiveTake(track: Track, update: (take: TrackTake) => TrackTake) {
+    const activeId = getActiveTakeId(track);
+    const updated = mapTakes(track, take => (take.id === activeId ? update(take) : take));
+    setTracks(prev => prev.map(t => (t.id === track.id ? updated : t)));
+    if (sourceNodesRef.current.has(track.id)) {
+      playTrackWebAudio(updated, getEffectiveGain(updated, tracks), getTrackPan(updated), getLaunchTime());
+    }
+  }
+
+  // Loop points dragged on the waveform, in seconds of the original audio
+  function setTrackLoop(trackId: number, region: { start: number; end: number } | null) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    updateActiveTake(track, take => ({ ...take, loopStart: region?.start, loopEnd: region?.end }));
+    logNote(region
+      ? `🔁 ${track.name}: loop ${region.start.toFixed(2)}s → ${region.end.toFixed(2)}s`
+      : `↩️ ${track.name}: loop reset to whole bars`);
+  }
+
+  // Correcting the tempo records the measured BPM as the take's own, so playback
+  // stretches it to the session tempo from there.
+  function correctTrackTiming(trackId: number, correction: 'tempo' | 'downbeat', apply: boolean) {
+    const track = tracks.find(t => t.id === trackId);
+    const analysis = track?.tempoAnalysis;
+    if (!track || !analysis) return;
+
+    // Realigning goes back to whole bars from the new start, dropping any hand-picked end
+    updateActiveTake(track, take => correction === 'tempo'
+      ? { ...take, bpm: apply ? analysis.bpm : analysis.expectedBPM }
+      : { ...take, loopStart: apply ? analysis.downbeatOffset : undefined, loopEnd: undefined });
+    logNote(correction === 'tempo'
+      ? apply ? `🎯 ${track.name}: tempo corrected to ${analysis.bpm} BPM` : `↩️ ${track.name}: back to ${analysis.expectedBPM} BPM`
+      : apply ? `🎯 ${track.name}: loop aligned to the downbeat at ${analysis.downbeatOffset}s` : `↩️ ${track.name}: loop starts where the audio starts`);
+  }
+
+  function selectTrackTake(trackId: number, takeId: number) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track || getActiveTakeId(track) === takeId) return;
+    const index = getTrackTakes(track).findIndex(take => take.id === takeId);
+    setTracks(prev => prev.map(t => (t.id === trackId ? selectTake(t, takeId) : t)));
+    logAction({ type: 'take', trackId, name: track.name, from: getActiveTakeId(track), to: takeId, label: getTakeLabel(index) });
+  }
+
+  // Commit to the active take and free the audio of the others
+  function keepTrackTake(trackId: number) {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    const { track: kept, discarded } = keepActiveTake(track);
+    discarded.forEach((take) => {
+      if (take.url) URL.revokeObjectURL(take.url);
+      audioBuffersRef.current.delete(take.id);
+      stretchedBuffersRef.current.delete(take.id);
+      stretchJobsRef.current.delete(take.id);
+      deleteTrackAudio(take.id).catch((err) => {
+        console.warn(`⚠️ Failed to delete stored audio for ${track.name}:`, err);
+      });
+    });
+    setTracks(prev => prev.map(t => (t.id === trackId ? kept : t)));
+    setHistory(prev => retireTakeActions(prev, trackId));
+    logNote(`📌 ${track.name}: kept take ${getTakeLabel(getTrackTakes(track).findIndex(t => t.id === getActiveTakeId(track)))}`);
   }
 
   useEffect(() => {
     if (typeof window !== "undefined" && "webkitSpeechRecognition" in window) {
       recognitionRef.current = new window.webkitSpeechRecognition();
       const rec = recognitionRef.current;
-      rec.lang = "en-US"; // можно изменить на "ru-RU" для русского
+      rec.lang = VOCABULARIES[DEFAULT_VOICE_LANGUAGE].locale;
       rec.continuous = false;
       rec.interimResults = false;
 
       rec.onresult = (event: RecognitionEvent) => {
-        const command = event.results[0][0].transcript.toLowerCase();
-        console.log(`🎤 Voice command: "${command}"`);
-        
-        // Parse style and instrument from command
-        function parseVoiceCommand(command: string): { instrument: string; style?: string } {
-          // Common musical styles
-          const styles = [
-            'jazz', 'rock', 'blues', 'funk', 'funky', 'classical', 'acoustic', 'electric',
-            'latin', 'reggae', 'country', 'pop', 'metal', 'punk', 'ambient', 'electronic',
-            'hip hop', 'rap', 'rnb', 'soul', 'disco', 'techno', 'house', 'dubstep',
-            'джаз', 'рок', 'блюз', 'фанк', 'классика', 'акустик', 'электрик', 'метал'
-          ];
-          
-          let detectedStyle = '';
-          let remainingCommand = command;
-          
-          // Check for style keywords
-          for (const style of styles) {
-            if (command.includes(style)) {
-              detectedStyle = style;
-              remainingCommand = command.replace(new RegExp(style, 'gi'), '').trim();
-              break;
-            }
-          }
-          
-          const instrument = (remainingCommand || command).trim();
-          return { 
-            instrument, 
-            style: detectedStyle || undefined 
-          };
+        // Continuous sessions deliver every phrase so far - only the new ones matter
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          if (!event.results[i].isFinal) continue;
+          const transcript = event.results[i][0].transcript.toLowerCase();
+          console.log(`🎤 Voice command: "${transcript}"`);
+          voiceTranscriptHandlerRef.current(transcript);
         }
-        
-        const { instrument: commandInstrument, style: commandStyle } = parseVoiceCommand(command);
-        
-        // Enhanced matching with synonyms and variations (English + Russian)
-        const instrumentMap: { [key: string]: string } = {
-          // Piano variations
-          'piano': 'Piano',
-          'keyboard': 'Piano', 
-          'keys': 'Piano',
-          'пианино': 'Piano',
-          'клавиши': 'Piano',
-          'фортепиано': 'Piano',
-          
-          // Guitar variations (order matters - more specific first!)
-          'bass guitar': 'Bass Guitar', 
-          'electric bass': 'Electric Bass',
-          'electric guitar': 'Electric Guitar',
-          'acoustic guitar': 'Electric Guitar',
-          'guitar': 'Electric Guitar',
-          'bass': 'Bass Guitar',
-          'гитара': 'Electric Guitar',
-          'электрогитара': 'Electric Guitar',
-          'бас': 'Bass Guitar',
-          'басс': 'Bass Guitar',
-          'бас-гитара': 'Bass Guitar',
-          
-          // Drums variations
-          'drums': 'Drum Set',
-          'drum set': 'Drum Set',
-          'drum': 'Drum Set',
-          'percussion': 'Drum Set',
-          'барабаны': 'Drum Set',
-          'барабан': 'Drum Set',
-          'ударные': 'Drum Set',
-          
-          // Wind instruments
-          'saxophone': 'Saxophone',
-          'sax': 'Saxophone', 
-          'trumpet': 'Trumpet',
-          'саксофон': 'Saxophone',
-          'сакс': 'Saxophone',
-          'труба': 'Trumpet',
-          'трубка': 'Trumpet',
-          
-          // Other
-          'maracas': 'Maracas',
-          'shaker': 'Maracas',
-          'маракасы': 'Maracas',
-          'маракас': 'Maracas'
-        };
-        
-        // First try exact matches on cleaned instrument command
-        const cleanedInstrument = (commandInstrument || "").trim();
-        let matchedInstrument = cleanedInstrument ? instrumentMap[cleanedInstrument] : undefined;
-        
-        // Then try partial matches
-        if (!matchedInstrument) {
-          for (const [keyword, instrument] of Object.entries(instrumentMap)) {
-            if (cleanedInstrument.includes(keyword)) {
-              matchedInstrument = instrument;
-              break;
-            }
-          }
-        }
-        
-        if (matchedInstrument) {
-          const displayName = commandStyle ? `${commandStyle} ${matchedInstrument}` : matchedInstrument;
-          console.log(`✅ Voice matched: ${matchedInstrument} ${commandStyle ? `with style: ${commandStyle}` : ''}`);
-          addTrack(matchedInstrument, commandStyle);
-          setHistory(prev => [...prev, `🎤 Voice added: ${displayName}`]);
-        } else {
-          console.log(`❌ Voice command not recognized: "${command}"`);
-          setHistory(prev => [...prev, `🎤 Couldn't understand: "${command}"`]);
+      };
+
+      rec.onerror = (event: RecognitionErrorEvent) => {
+        console.warn(`⚠️ Speech recognition error: ${event.error}`);
+        // Denied microphone - restarting would just fail again
+        if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+          keepListeningRef.current = false;
         }
       };
 
-      rec.onend = () => setListening(false);
+      rec.onend = () => {
+        if (keepListeningRef.current) {
+          try {
+            rec.start();
+            return;
+          } catch (e) {
+            console.warn('⚠️ Failed to restart hands-free listening:', e);
+            keepListeningRef.current = false;
+          }
+        }
+        setListening(false);
+      };
+    } else {
+      setSpeechSupported(false);
     }
-    // We intentionally do not include addTrack/availableInstruments to avoid
-    // reinitializing recognition on every render. These values are stable.
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  function toggleListening() {
+  // A new language takes effect on the next session - hands-free restarts right away with it
+  useEffect(() => {
     const rec = recognitionRef.current;
     if (!rec) return;
+    rec.lang = VOCABULARIES[voiceLanguage].locale;
+    if (keepListeningRef.current) rec.stop();
+  }, [voiceLanguage]);
+
+  function handleVoiceTranscript(transcript: string) {
+    let command = transcript;
+    if (handsFree) {
+      const addressed = stripWakeWord(transcript, voiceLanguage);
+      if (addressed === null) {
+        console.log(`🎤 Ignored - no wake word: "${transcript}"`);
+        return;
+      }
+      if (!addressed) return;
+      command = addressed;
+    }
+
+    const intent = parseVoiceIntent(command, voiceLanguage);
+    console.log(`🎤 Parsed intent:`, intent);
+    handleVoiceIntent(intent, 'voice');
+  }
+  voiceTranscriptHandlerRef.current = handleVoiceTranscript;
+
+  function handleVoiceIntent(intent: VoiceIntent, source: CommandSource) {
+    const icon = source === 'voice' ? '🎤' : '⌨️';
+    switch (intent.type) {
+      case 'add': {
+        const displayName = intent.style ? `${intent.style} ${intent.instrument}` : intent.instrument;
+        console.log(`✅ ${source === 'voice' ? 'Voice' : 'Command'} matched: ${intent.instrument} ${intent.style ? `with style: ${intent.style}` : ''}`);
+        addTrack(intent.instrument, intent.style);
+        const certainty = intent.confidence < 1 ? ` (${Math.round(intent.confidence * 100)}% match)` : '';
+        logNote(`${source === 'voice' ? '🎤 Voice added' : '⌨️ Command added'}: ${displayName}${certainty}`);
+        return;
+      }
+      case 'play':
+        playAll();
+        return;
+      case 'stop':
+        stopAll();
+        return;
+      case 'tempo':
+      case 'tempoStep': {
+        const target = intent.type === 'tempo' ? intent.bpm : currentBPM + intent.delta;
+        changeBPM(clamp(Math.round(target), MIN_BPM, MAX_BPM));
+        return;
+      }
+      case 'clear':
+        clearAllTracks();
+        return;
+      case 'unknown':
+        console.log(`❌ ${source === 'voice' ? 'Voice command' : 'Command'} not recognized: "${intent.text}"`);
+        logNote(intent.suggestions.length > 0
+          ? `${icon} Couldn't understand: "${intent.text}" - did you mean ${intent.suggestions.map(s => `"${s}"`).join(', ')}?`
+          : `${icon} Couldn't understand: "${intent.text}"`);
+        return;
+    }
+
+    const track = resolveTrackTarget(intent.target, tracks);
+    if (!track) {
+      logNote(`${icon} No track matches "${intent.target.text}"`);
+      return;
+    }
+    switch (intent.type) {
+      case 'remove':
+        removeTrack(track.id);
+        break;
+      case 'mute':
+      case 'unmute':
+        if (!!track.muted !== (intent.type === 'mute')) toggleMute(track.id);
+        break;
+      case 'solo':
+      case 'unsolo':
+        if (!!track.solo !== (intent.type === 'solo')) toggleSolo(track.id);
+        break;
+      case 'regenerate':
+        regenerateTrack(track.id);
+        break;
+    }
+  }
+
+  function submitCommand() {
+    const command = commandText.trim();
+    if (!command) return;
+    console.log(`⌨️ Typed command: "${command}"`);
+    const intent = parseVoiceIntent(command, voiceLanguage);
+    console.log(`⌨️ Parsed intent:`, intent);
+    handleVoiceIntent(intent, 'typed');
+    setCommandText('');
+  }
+
+  function toggleListening() {
+    const rec = recognitionRef.current;
+    // No speech recognition in this browser (Firefox, most Linux builds) - point to the command bar instead
+    if (!rec) {
+      commandInputRef.current?.focus();
+      return;
+    }
     if (listening) {
+      keepListeningRef.current = false;
       rec.stop();
       setListening(false);
     } else {
+      rec.continuous = handsFree;
+      keepListeningRef.current = handsFree;
       rec.start();
       setListening(true);
     }
   }
 
+  // Switching modes ends the current session; the next tap starts one in the new mode
+  function changeHandsFree(enabled: boolean) {
+    setHandsFree(enabled);
+    if (listening) {
+      keepListeningRef.current = false;
+      recognitionRef.current?.stop();
+      setListening(false);
+    }
+  }
+
+  // Existing tracks follow the session tempo - playback stretches them to fit
   function changeBPM(newBPM: number) {
-    if (tracks.filter(t => t.url).length > 0) {
-      // Warn user if tracks already exist
-      if (confirm(`Changing BPM will affect future tracks. Current tracks are at ${currentBPM} BPM. Continue?`)) {
-        setCurrentBPM(newBPM);
-        setHistory(prev => [...prev, `🎵 Changed tempo to ${newBPM} BPM`]);
+    if (newBPM === currentBPM) return;
+    setCurrentBPM(newBPM);
+    const hasAudio = tracks.some(t => t.url);
+    logAction({ type: 'bpm', from: currentBPM, to: newBPM, stretchMode: hasAudio ? stretchMode : undefined });
+  }
+
+  async function saveProject() {
+    setIsExporting(true);
+    try {
+      // Prefer the stored bytes; fall back to the live blob URL if storage was evicted
+      const audio = new Map<number, Blob>();
+      for (const take of tracks.flatMap(getTrackTakes).filter(t => t.url)) {
+        const blob = await loadTrackAudio(take.id).catch(() => null)
+          ?? await fetch(take.url!).then(res => res.blob()).catch(() => null);
+        if (blob) audio.set(take.id, blob);
       }
-    } else {
-      setCurrentBPM(newBPM);
-      setHistory(prev => [...prev, `🎵 Set tempo to ${newBPM} BPM`]);
+
+      const blob = await createProjectFile({
+        session: { bpm: currentBPM, timeSignature, masterVolume, stretchMode },
+        tracks,
+        history: historyToMessages(history),
+        audio,
+      });
+      downloadBlob(blob, `groove-${currentBPM}bpm${PROJECT_EXTENSION}`);
+      logNote(`💾 Saved project (${tracks.length} tracks)`);
+    } catch (err) {
+      console.error("❌ Project save failed:", err);
+      logNote(`❌ Project save failed`);
+    } finally {
+      setIsExporting(false);
     }
   }
+
+  // Replaces the whole session - tracks, audio, tempo, meter, mixer and history - with the file's
+  async function openProject(file: File) {
+    if (tracks.length > 0 && !confirm('Open this project? The current session will be replaced.')) return;
+
+    let project;
+    try {
+      project = await readProjectFile(file);
+    } catch (err) {
+      console.error("❌ Project import failed:", err);
+      alert(err instanceof ProjectFileError ? `Can't open ${file.name}: ${err.message}` : `Can't open ${file.name}.`);
+      return;
+    }
+
+    cancelAllGenerations();
+    stopAll();
+    tracks.flatMap(getTrackTakes).forEach((take) => {
+      if (take.url) URL.revokeObjectURL(take.url);
+    });
+    audioBuffersRef.current.clear();
+    failedTakesRef.current.clear();
+    stretchedBuffersRef.current.clear();
+    stretchJobsRef.current.clear();
+    loopCacheRef.current.clear();
+    audioRefs.current.clear();
+    loopHandlers.current.clear();
+    await clearTrackAudio().catch((err) => console.warn('Failed to clear stored audio:', err));
+
+    for (const [takeId, blob] of project.audio) {
+      await saveTrackAudio(takeId, blob).catch((err) => console.warn(`⚠️ Failed to store audio for take ${takeId}:`, err));
+    }
+    const restored = project.tracks.map(track => mapTakes(track, (take) => {
+      const blob = project.audio.get(take.id);
+      return blob ? { ...take, url: URL.createObjectURL(blob), stale: false } : take;
+    }));
+
+    setTracks(restored);
+    setCurrentBPM(project.session.bpm);
+    setTimeSignature(project.session.timeSignature);
+    setMasterVolume(project.session.masterVolume);
+    setStretchMode(project.session.stretchMode);
+    setHistory(pushEntry(historyFromMessages(project.history), createHistoryEntry({
+      type: 'note',
+      message: project.migratedFrom !== undefined
+        ? `📂 Opened ${file.name} (upgraded from format v${project.migratedFrom})`
+        : `📂 Opened ${file.name}`,
+    })));
+    console.log(`📂 Opened project with ${restored.length} tracks`);
+
+    if (webAudioSupported) {
+      await ensureBuffersLoaded(restored.filter(t => t.url));
+    }
+  }
+
+  // Tracks keep the meter they were generated in; new tracks and the bar display follow the session
+  function changeTimeSignature(value: string) {
+    const next = parseTimeSignature(value);
+    if (!next || formatTimeSignature(next) === formatTimeSignature(timeSignature)) return;
+    setTimeSignature(next);
+    logAction({ type: 'timeSignature', from: timeSignature, to: next });
+  }
+
+  // Decode every take in use up front - waveforms and the tempo check need the audio before anything plays
+  useEffect(() => {
+    if (!webAudioSupported) return;
+    handlersRef.current.ensureBuffersLoaded(tracks.filter(t => t.url))
+      .catch((err) => console.error('❌ Failed to decode tracks:', err));
+  }, [tracks, webAudioSupported]);
+
+  // Re-fit playing tracks to a new tempo or stretch mode mid-groove
+  function refitPlayingTracks(bpm: number) {
+    if (!isPlayingAll || !webAudioSupported) return;
+
+    transportRef.current?.setTempo(bpm);
+    tracks.forEach((track) => {
+      if (sourceNodesRef.current.has(track.id)) {
+        playTrackWebAudio(track, getEffectiveGain(track, tracks), getTrackPan(track));
+      }
+    });
+  }
+
+  // Only tempo and stretch changes restart sources, not every mixer tweak or Play All itself
+  useEffect(() => {
+    handlersRef.current.refitPlayingTracks(currentBPM);
+  }, [currentBPM, stretchMode]);
+
+  // Bar/beat readout and playhead over the session loop while the groove runs on the Web Audio clock
+  useEffect(() => {
+    if (!isPlayingAll || !webAudioSupported) {
+      setBarReadout(null);
+      return;
+    }
+
+    const loopBars = calculateLoopBars(currentBPM, timeSignature);
+    let frame = requestAnimationFrame(function tick() {
+      const beats = transportRef.current?.getBeats();
+      if (beats !== null && beats !== undefined && beats < 0 && countInBars > 0) {
+        // Counting in: pulses left until bar 1
+        setBarReadout(`-${Math.ceil(-beats * (timeSignature.noteValue / 4))}`);
+      } else if (beats !== null && beats !== undefined) {
+        const position = getBarPosition(beats, timeSignature);
+        const barInLoop = (position.bar - 1) % loopBars;
+        setBarReadout(formatBarPosition({ ...position, bar: barInLoop + 1 }));
+        if (playheadRef.current) {
+          const fraction = (barInLoop + (position.beat - 1 + position.progress) / timeSignature.beats) / loopBars;
+          playheadRef.current.style.left = `${(fraction * 100).toFixed(2)}%`;
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlayingAll, webAudioSupported, currentBPM, timeSignature, countInBars]);
+
+  // Clip-launcher: tracks that should be playing something else - freshly generated ones, a new or
+  // switched take, an undone removal - come in at the next launch point without stopping the groove
+  function launchPendingTracks(currentTracks: Track[]) {
+    if (!isPlayingAll || !webAudioSupported) return;
+
+    currentTracks.forEach((track) => {
+      if (!track.url || launchingRef.current.has(track.id)) return;
+      if (playingTakesRef.current.get(track.id) === getActiveTakeId(track)) return;
+
+      launchingRef.current.add(track.id);
+      ensureBuffersLoaded([track]).then(() => {
+        launchingRef.current.delete(track.id);
+        const latestTracks = tracksRef.current;
+        const latest = latestTracks.find(t => t.id === track.id);
+        if (!latest?.url || !transportRef.current?.isRunning()) return;
+        if (playingTakesRef.current.get(latest.id) === getActiveTakeId(latest)) return;
+        playTrackWebAudio(latest, getEffectiveGain(latest, latestTracks), getTrackPan(latest), getLaunchTime());
+      }).catch((err) => {
+        launchingRef.current.delete(track.id);
+        console.error(`❌ Failed to launch ${track.name}:`, err);
+      });
+    });
+  }
+
+  // Only track/take changes launch anything; the mixer effect handles gain/pan
+  useEffect(() => {
+    handlersRef.current.launchPendingTracks(tracks);
+  }, [tracks]);
+
+  // HTML5 fallback: playbackRate with the browser's own pitch preservation in quality mode
+  useEffect(() => {
+    tracks.forEach((track) => {
+      const audio = audioRefs.current.get(track.id);
+      if (audio) {
+        audio.playbackRate = getTempoRatio(currentBPM, track.bpm);
+        audio.preservesPitch = stretchMode === 'quality';
+      }
+    });
+  }, [tracks, currentBPM, stretchMode]);
   
   // Development helper - clear all tracks
   function clearAllTracks() {
     if (confirm('Clear all tracks? This will remove all generated music.')) {
+      stopAll();
+      cancelAllGenerations();
+      // Tracks only reachable through the log are released by the history effect once it's emptied
+      tracks.forEach(track => {
+        detachTrack(track);
+        releaseTrackAudio(track, new Set());
+      });
       setTracks([]);
-      setHistory([]);
+      setHistory(EMPTY_HISTORY);
       if (isClient) {
         localStorage.removeItem('groove-app-tracks');
+        clearTrackAudio().catch((err) => console.warn('Failed to clear stored audio:', err));
       }
       console.log('🧹 Cleared all tracks');
     }
@@ -754,20 +1826,66 @@ export default function GrooveApp() {
       <Card className="max-w-2xl mx-auto glass-card text-white/90">
         <CardContent className="p-8">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="font-semibold text-neutral-800">Current Tracks</h2>
+            <div className="flex items-center gap-2">
+              <h2 className="font-semibold text-neutral-800">Current Tracks</h2>
+              <Button
+                onClick={saveProject}
+                disabled={isExporting || tracks.length === 0}
+                className="glass-pill h-8 w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110"
+                title="Save project"
+                aria-label="Save project"
+              >
+                <Save size={14} />
+              </Button>
+              <Button
+                onClick={() => projectInputRef.current?.click()}
+                className="glass-pill h-8 w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110"
+                title="Open project"
+                aria-label="Open project"
+              >
+                <FolderOpen size={14} />
+              </Button>
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_EXTENSION},application/zip,application/json`}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) openProject(file);
+                }}
+              />
+            </div>
             <div className="flex items-center gap-3">
               <select 
                 value={currentBPM}
                 onChange={(e) => changeBPM(Number(e.target.value))}
                 className="text-sm text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
               >
-                {bpmPresets.map(bpm => (
+                {(bpmPresets.includes(currentBPM) ? bpmPresets : [...bpmPresets, currentBPM].sort((a, b) => a - b)).map(bpm => (
                   <option key={bpm} value={bpm}>{bpm} BPM</option>
                 ))}
               </select>
-              <div className="text-sm text-neutral-600 bg-neutral-100 px-3 py-1 rounded-full">
-                4/4
-              </div>
+              <select
+                value={formatTimeSignature(timeSignature)}
+                onChange={(e) => changeTimeSignature(e.target.value)}
+                className="text-sm text-neutral-600 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-500"
+                title="Time signature for new tracks"
+              >
+                {TIME_SIGNATURES.map(ts => (
+                  <option key={formatTimeSignature(ts)} value={formatTimeSignature(ts)}>{formatTimeSignature(ts)}</option>
+                ))}
+              </select>
+              <select
+                value={stretchMode}
+                onChange={(e) => setStretchMode(e.target.value as StretchMode)}
+                className="text-sm text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                title="How existing tracks follow tempo changes"
+              >
+                <option value="varispeed">Varispeed</option>
+                <option value="quality">Keep pitch</option>
+              </select>
               <div className="text-xs text-neutral-500 bg-neutral-50 px-2 py-1 rounded" title="Track duration for complete musical phrases">
                 {getCurrentDuration()}
               </div>
@@ -781,7 +1899,7 @@ export default function GrooveApp() {
             >
               <div className="text-6xl mb-4">🎵</div>
               <h3 className="text-xl font-semibold text-white/90 mb-2">No tracks yet</h3>
-              <p className="text-white/70 mb-8">Start by adding your first instrument using voice or buttons below</p>
+              <p className="text-white/70 mb-8">Start by adding your first instrument using voice, a typed command or the buttons below</p>
               
               {/* Large Voice Add Button */}
               <motion.div 
@@ -791,6 +1909,7 @@ export default function GrooveApp() {
               >
                 <Button
                   onClick={toggleListening}
+                  title={speechSupported ? undefined : "Voice input isn't supported in this browser - type a command instead"}
                   className={`glass-pill w-24 h-24 rounded-full text-white flex flex-col items-center justify-center gap-1 transition-all duration-300 ${
                     listening 
                       ? "bg-red-400/50 shadow-lg shadow-red-500/25 animate-pulse" 
@@ -805,7 +1924,11 @@ export default function GrooveApp() {
               </motion.div>
               
               <p className="text-white/60 text-sm">
-                {listening ? "🎤 Say an instrument name..." : "Tap to start voice recording"}
+                {!speechSupported
+                  ? "⌨️ Voice isn't available here - type a command below"
+                  : listening
+                    ? handsFree ? `🎤 Say “${VOCABULARIES[voiceLanguage].wakeWords[0]}, add drums”...` : "🎤 Say an instrument name..."
+                    : "Tap to start voice recording"}
               </p>
             </motion.div>
           ) : (
@@ -822,8 +1945,63 @@ export default function GrooveApp() {
                     <div className="flex items-center justify-between gap-2">
                       <span className="font-medium text-white/95 truncate flex-shrink-0 min-w-0">
                         {track.name}
+                        {track.timeSignature && formatTimeSignature(track.timeSignature) !== formatTimeSignature(timeSignature) && (
+                          <span className="ml-2 text-xs text-white/60" title="Time signature this track was generated in">
+                            {formatTimeSignature(track.timeSignature)}
+                          </span>
+                        )}
+                        {track.bpm && track.bpm !== currentBPM && (
+                          <span
+                            className="ml-2 text-xs text-white/60"
+                            title={`Generated at ${track.bpm} BPM, ${stretchMode === 'quality' ? 'time-stretched' : 'sped up/slowed down'} to ${currentBPM} BPM`}
+                          >
+                            ({track.bpm} BPM)
+                          </span>
+                        )}
                       </span>
                       <div className="flex items-center gap-1 flex-shrink-0">
+                        {generationJobs[track.id] ? (
+                          <Button
+                            onClick={() => cancelGeneration(track.id)}
+                            className="glass-pill h-7 w-7 sm:h-8 sm:w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110 animate-pulse"
+                            aria-label="Cancel generation"
+                            title="Cancel generation"
+                          >
+                            <X size={12} className="sm:w-3.5 sm:h-3.5" />
+                          </Button>
+                        ) : (
+                          <Button
+                            onClick={() => regenerateTrack(track.id)}
+                            disabled={!track.url && !track.stale}
+                            className="glass-pill h-7 w-7 sm:h-8 sm:w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110"
+                            aria-label="Regenerate track"
+                            title="Generate a new take (previous takes are kept)"
+                          >
+                            <RefreshCw size={12} className="sm:w-3.5 sm:h-3.5" />
+                          </Button>
+                        )}
+                        <Button
+                          onClick={() => setEffectsTrackId(effectsTrackId === track.id ? null : track.id)}
+                          className={`glass-pill h-7 w-7 sm:h-8 sm:w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110 ${
+                            hasEffects(getTrackEffects(track)) ? "bg-purple-400/50" : ""
+                          }`}
+                          aria-label="Effects"
+                          aria-expanded={effectsTrackId === track.id}
+                          title="Effects: EQ, filter, compression, delay, reverb"
+                        >
+                          <SlidersHorizontal size={12} className="sm:w-3.5 sm:h-3.5" />
+                        </Button>
+                        <Button
+                          onClick={() => toggleSolo(track.id)}
+                          className={`glass-pill h-7 w-7 sm:h-8 sm:w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110 ${
+                            track.solo ? "bg-yellow-300/50" : ""
+                          }`}
+                          aria-label={track.solo ? "Unsolo" : "Solo"}
+                          aria-pressed={!!track.solo}
+                          title={track.solo ? "Unsolo" : "Solo"}
+                        >
+                          <Headphones size={12} className="sm:w-3.5 sm:h-3.5" />
+                        </Button>
                         <Button
                           onClick={() => toggleMute(track.id)}
                           className="glass-pill h-7 w-7 sm:h-8 sm:w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110"
@@ -842,9 +2020,154 @@ export default function GrooveApp() {
                         </Button>
                       </div>
                     </div>
-                    
+
+                    {/* Takes - A/B between versions while the groove plays */}
+                    {getTrackTakes(track).length > 1 && (
+                      <div className="mt-2 flex items-center gap-1 text-xs text-white/80">
+                        <span className="mr-1">Takes</span>
+                        {getTrackTakes(track).map((take, takeIndex) => (
+                          <button
+                            key={take.id}
+                            onClick={() => selectTrackTake(track.id, take.id)}
+                            disabled={!take.url}
+                            className={`glass-pill h-6 min-w-6 px-2 rounded-full ${
+                              take.id === getActiveTakeId(track) ? "bg-purple-400/50 text-white" : "hover:brightness-110"
+                            } disabled:opacity-40`}
+                            aria-pressed={take.id === getActiveTakeId(track)}
+                            title={[
+                              `${take.bpm ?? currentBPM} BPM, ${formatTimeSignature(take.timeSignature ?? timeSignature)}`,
+                              take.prompt,
+                            ].filter(Boolean).join('\n')}
+                          >
+                            {getTakeLabel(takeIndex)}
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => keepTrackTake(track.id)}
+                          className="glass-pill h-6 px-2 rounded-full flex items-center gap-1 hover:brightness-110 ml-1"
+                          title="Keep the selected take and discard the others"
+                        >
+                          <Check size={12} /> Keep
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Tempo check - what the provider delivered vs. what was asked for */}
+                    {track.tempoAnalysis && (isTempoOff(track.tempoAnalysis) || isDownbeatOff(track.tempoAnalysis)) && (
+                      <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-amber-200/90">
+                        {isTempoOff(track.tempoAnalysis) && (
+                          <span className="flex items-center gap-1" title={`Measured tempo, confidence ${Math.round(track.tempoAnalysis.confidence * 100)}%`}>
+                            {track.bpm === track.tempoAnalysis.bpm
+                              ? `🎯 Tempo corrected to ${track.tempoAnalysis.bpm} BPM`
+                              : `⚠️ Plays at ~${track.tempoAnalysis.bpm} BPM, asked for ${track.tempoAnalysis.expectedBPM}`}
+                            <button
+                              onClick={() => correctTrackTiming(track.id, 'tempo', track.bpm !== track.tempoAnalysis?.bpm)}
+                              className="glass-pill h-6 px-2 rounded-full text-white/90 hover:brightness-110"
+                              title={track.bpm === track.tempoAnalysis.bpm
+                                ? `Treat the audio as ${track.tempoAnalysis.expectedBPM} BPM again`
+                                : `Treat the audio as ${track.tempoAnalysis.bpm} BPM so it's time-corrected to the session tempo`}
+                            >
+                              {track.bpm === track.tempoAnalysis.bpm ? 'Undo' : 'Fix tempo'}
+                            </button>
+                          </span>
+                        )}
+                        {isDownbeatOff(track.tempoAnalysis) && (
+                          <span className="flex items-center gap-1">
+                            {track.loopStart === track.tempoAnalysis.downbeatOffset
+                              ? '🎯 Loop aligned to the downbeat'
+                              : `⚠️ First downbeat at ${track.tempoAnalysis.downbeatOffset.toFixed(2)}s`}
+                            <button
+                              onClick={() => correctTrackTiming(track.id, 'downbeat', track.loopStart !== track.tempoAnalysis?.downbeatOffset)}
+                              className="glass-pill h-6 px-2 rounded-full text-white/90 hover:brightness-110"
+                              title={track.loopStart === track.tempoAnalysis.downbeatOffset
+                                ? 'Loop from where the audio starts again'
+                                : 'Start the loop on the detected downbeat so bar 1 lines up with the groove'}
+                            >
+                              {track.loopStart === track.tempoAnalysis.downbeatOffset ? 'Undo' : 'Align'}
+                            </button>
+                          </span>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Mixer strip */}
+                    <div className="mt-2 flex items-center gap-3 text-xs text-white/80">
+                      <label
+                        className="flex items-center gap-2 flex-1 min-w-0"
+                        title={track.loudness
+                          ? `${track.loudness.integrated} LUFS, peak ${track.loudness.peak} dBFS - normalized by ${(20 * Math.log10(getTrackNormalization(track))).toFixed(1)} dB`
+                          : undefined}
+                      >
+                        <span className="w-8">Vol</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          value={getTrackVolume(track)}
+                          onChange={(e) => setTrackVolume(track.id, Number(e.target.value))}
+                          className="flex-1 min-w-0 accent-purple-500"
+                          aria-label={`${track.name} volume`}
+                        />
+                        <span className="w-8 text-right">{Math.round(getTrackVolume(track) * 100)}</span>
+                      </label>
+                      <label className="flex items-center gap-2 w-32 sm:w-40">
+                        <span>Pan</span>
+                        <input
+                          type="range"
+                          min={-1}
+                          max={1}
+                          step={0.05}
+                          value={getTrackPan(track)}
+                          onChange={(e) => setTrackPan(track.id, Number(e.target.value))}
+                          onDoubleClick={() => setTrackPan(track.id, 0)}
+                          className="flex-1 min-w-0 accent-purple-500"
+                          aria-label={`${track.name} pan`}
+                          title="Double-click to center"
+                        />
+                        <span className="w-7 text-right">
+                          {getTrackPan(track) === 0 ? "C" : `${getTrackPan(track) < 0 ? "L" : "R"}${Math.round(Math.abs(getTrackPan(track)) * 100)}`}
+                        </span>
+                      </label>
+                    </div>
+
+                    {effectsTrackId === track.id && (
+                      <TrackEffectsPanel
+                        trackName={track.name}
+                        effects={getTrackEffects(track)}
+                        onChange={(param, value) => setTrackEffect(track.id, param, value)}
+                        className="mt-2 p-2 rounded-lg bg-black/20"
+                      />
+                    )}
+
                     {track.url ? (
                       <div className="mt-2">
+                        {webAudioSupported && getActiveBuffer(track) && (
+                          <div className="mb-2">
+                            <Waveform
+                              buffer={getActiveBuffer(track)!}
+                              bpm={track.bpm ?? currentBPM}
+                              timeSignature={track.timeSignature ?? timeSignature}
+                              loopStart={track.loopStart}
+                              loopEnd={track.loopEnd}
+                              playing={isPlayingAll}
+                              getPlayhead={() => getTrackPlayhead(track)}
+                              onLoopChange={(region) => setTrackLoop(track.id, region)}
+                              className="rounded-lg bg-black/20"
+                            />
+                            {(track.loopStart !== undefined || track.loopEnd !== undefined) && (
+                              <div className="mt-1 flex justify-end">
+                                <button
+                                  onClick={() => setTrackLoop(track.id, null)}
+                                  className="glass-pill h-6 px-2 rounded-full text-xs text-white/80 hover:brightness-110"
+                                  title="Loop whole bars from where the audio starts"
+                                >
+                                  Reset loop
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        )}
                         <audio
                           ref={(el) => {
                             if (el) {
@@ -852,7 +2175,8 @@ export default function GrooveApp() {
                               
                               // Set up seamless looping only if not already set
                               if (!loopHandlers.current.has(track.id)) {
-                                const MAX_HTML5_DURATION = 10.0;
+                                // HTML5 can't loop sample-accurately, but it can at least wrap on a bar line
+                                const MAX_HTML5_DURATION = calculateOptimalDuration(track.bpm ?? currentBPM, track.timeSignature ?? timeSignature);
                                 let loopTimeout: NodeJS.Timeout | null = null;
 
                                 const loopHandler = () => {
@@ -862,7 +2186,7 @@ export default function GrooveApp() {
                                     console.error(`❌ Loop restart failed for ${track.name}:`, err);
                                   });
 
-                                  // Set timeout to force restart at 10s if track is longer
+                                  // Set timeout to force restart at the bar boundary if track is longer
                                   if (el.duration > MAX_HTML5_DURATION) {
                                     if (loopTimeout) clearTimeout(loopTimeout);
                                     loopTimeout = setTimeout(() => {
@@ -877,7 +2201,7 @@ export default function GrooveApp() {
                                   console.log(`✅ Track ${track.name} loop restarted`);
                                 };
                                 
-                                // Also set up timeupdate listener to force loop at exactly 10s
+                                // Also set up timeupdate listener to force loop at the bar boundary
                                 const timeUpdateHandler = () => {
                                   if (el.currentTime >= MAX_HTML5_DURATION && el.duration > MAX_HTML5_DURATION) {
                                     console.log(`⏰ Force loop HTML5 track ${track.name} at ${el.currentTime.toFixed(2)}s`);
@@ -915,7 +2239,7 @@ export default function GrooveApp() {
                               audioRefs.current.delete(track.id);
                             }
                           }}
-                          muted={track.muted}
+                          muted={!isTrackAudible(track, tracks)}
                           controls
                           src={track.url}
                           className={`w-full h-8 ${isPlayingAll ? 'opacity-50 pointer-events-none' : ''}`}
@@ -927,9 +2251,34 @@ export default function GrooveApp() {
                           </div>
                         )}
                       </div>
-                    ) : (
+                    ) : track.stale ? (
+                      <div className="mt-2 text-center">
+                        <span className="text-sm text-amber-200/90" title="Stored audio was evicted or lost - remove and add the track again">
+                          ⚠️ audio expired
+                        </span>
+                      </div>
+                    ) : generationJobs[track.id] ? (
                       <div className="mt-2 text-center">
-                        <span className="text-sm text-white/70 animate-pulse">loading...</span>
+                        <span className="text-sm text-white/70 animate-pulse">
+                          {generationJobs[track.id].status === 'queued'
+                            ? 'queued...'
+                            : generationJobs[track.id].status === 'retrying'
+                              ? `retrying (${generationJobs[track.id].attempt}/${MAX_GENERATION_RETRIES})...`
+                              : 'generating...'}
+                        </span>
+                      </div>
+                    ) : (
+                      // No audio and nothing running: generation failed or was cut off by a reload
+                      <div className="mt-2 flex items-center justify-center gap-2">
+                        <span className="text-sm text-red-200/90 truncate" title={track.generationError}>
+                          ❌ {track.generationError ?? 'generation didn\'t finish'}
+                        </span>
+                        <Button
+                          onClick={() => retryTrack(track.id)}
+                          className="glass-pill h-7 px-3 text-xs text-white flex items-center gap-1 hover:brightness-110"
+                        >
+                          <RotateCcw size={12} /> Retry
+                        </Button>
                       </div>
                     )}
                   </motion.div>
@@ -944,6 +2293,7 @@ export default function GrooveApp() {
                 >
                   <Button
                     onClick={toggleListening}
+                    title={speechSupported ? undefined : "Voice input isn't supported in this browser - type a command instead"}
                     className={`glass-pill w-20 h-20 rounded-full text-white flex flex-col items-center justify-center gap-1 transition-all duration-300 ${
                       listening 
                         ? "bg-red-400/50 shadow-lg shadow-red-500/25 animate-pulse" 
@@ -957,6 +2307,32 @@ export default function GrooveApp() {
                   </Button>
                 </motion.div>
                 
+                {/* Master bus */}
+                <label className="flex items-center gap-2 text-sm text-white/80 w-full max-w-xs">
+                  <span>Master</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={masterVolume}
+                    onChange={(e) => changeMasterVolume(Number(e.target.value))}
+                    className="flex-1 accent-purple-500"
+                    aria-label="Master volume"
+                  />
+                  <span className="w-8 text-right">{Math.round(masterVolume * 100)}</span>
+                </label>
+
+                {/* Transport position */}
+                {isPlayingAll && barReadout && (
+                  <div className="flex items-center gap-2 text-xs text-white/80 w-full max-w-xs" title="Position in the loop (bar.beat)">
+                    <span className="w-10 font-mono tabular-nums">{barReadout}</span>
+                    <div className="relative flex-1 h-1.5 rounded-full bg-white/20">
+                      <div ref={playheadRef} className="absolute -top-1 -bottom-1 w-0.5 rounded bg-white shadow" style={{ left: '0%' }} />
+                    </div>
+                  </div>
+                )}
+
                 {/* Control Buttons */}
                 <div className="flex gap-3">
                   <Button
@@ -977,9 +2353,115 @@ export default function GrooveApp() {
                     Clear All
                   </Button>
                 </div>
+
+                <label
+                  className="flex items-center gap-2 text-xs text-white/80"
+                  title="While the groove plays, new tracks, new takes and mute/solo changes wait for this boundary"
+                >
+                  <span>Launch on</span>
+                  <select
+                    value={launchQuantize}
+                    onChange={(e) => setLaunchQuantize(e.target.value as LaunchQuantize)}
+                    className="text-xs text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="bar">Next bar</option>
+                    <option value="beat">Next beat</option>
+                    <option value="off">Immediately</option>
+                  </select>
+                </label>
+
+                {/* Metronome - live only, never part of an export */}
+                {webAudioSupported && (
+                  <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-white/80">
+                    <Button
+                      onClick={() => setMetronomeEnabled(!metronomeEnabled)}
+                      className={`glass-pill px-3 py-1.5 flex items-center gap-1.5 text-xs ${metronomeEnabled ? 'text-white' : 'text-white/60'}`}
+                      title={metronomeEnabled ? 'Mute the metronome' : 'Play a click with the groove'}
+                      aria-pressed={metronomeEnabled}
+                    >
+                      {metronomeEnabled ? <Timer size={14} /> : <TimerOff size={14} />} Click
+                    </Button>
+                    <label className="flex items-center gap-2">
+                      <span>Click volume</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        value={metronomeVolume}
+                        onChange={(e) => setMetronomeVolume(Number(e.target.value))}
+                        className="w-20 accent-purple-500"
+                        aria-label="Metronome volume"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2" title="Clicks before bar 1 when you press Play All, even with the metronome muted">
+                      <span>Count-in</span>
+                      <select
+                        value={countInBars}
+                        onChange={(e) => setCountInBars(Number(e.target.value))}
+                        className="text-xs text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        {COUNT_IN_OPTIONS.map(bars => (
+                          <option key={bars} value={bars}>{bars === 0 ? 'Off' : `${bars} bar${bars > 1 ? 's' : ''}`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                )}
                 
+                {/* Mixdown export */}
+                <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-white/80">
+                  <Button
+                    onClick={exportMix}
+                    disabled={isExporting || tracks.every(t => !t.url)}
+                    className="glass-pill px-4 py-2 text-white flex items-center gap-2 text-sm"
+                  >
+                    <Download size={16} /> {isExporting ? "Exporting..." : "Export mix"}
+                  </Button>
+                  <Button
+                    onClick={exportStems}
+                    disabled={isExporting || tracks.every(t => !t.url)}
+                    className="glass-pill px-4 py-2 text-white flex items-center gap-2 text-sm"
+                  >
+                    <Package size={16} /> Export stems
+                  </Button>
+                  <select
+                    value={mixdownOptions.repetitions}
+                    onChange={(e) => setMixdownOptions(prev => ({ ...prev, repetitions: Number(e.target.value) }))}
+                    className="text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg"
+                    aria-label="Loop repetitions"
+                  >
+                    {[1, 2, 4, 8].map(n => (
+                      <option key={n} value={n}>{n}x loop</option>
+                    ))}
+                  </select>
+                  <select
+                    value={mixdownOptions.fadeOutSeconds}
+                    onChange={(e) => setMixdownOptions(prev => ({ ...prev, fadeOutSeconds: Number(e.target.value) }))}
+                    className="text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg"
+                    aria-label="Fade-out tail"
+                  >
+                    {[0, 2, 4, 8].map(n => (
+                      <option key={n} value={n}>{n === 0 ? "No fade" : `${n}s fade`}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={mixdownOptions.bitDepth}
+                    onChange={(e) => setMixdownOptions(prev => ({ ...prev, bitDepth: Number(e.target.value) === 24 ? 24 : 16 }))}
+                    className="text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg"
+                    aria-label="Bit depth"
+                  >
+                    <option value={16}>16-bit</option>
+                    <option value={24}>24-bit</option>
+                  </select>
+                </div>
+
                 <p className="text-white/60 text-sm text-center">
-                  {listening ? "🎤 Say an instrument name..." : "Use voice or buttons below to add tracks"}
+                  {listening
+                    ? handsFree
+                      ? `🎤 Hands-free: start each command with “${VOCABULARIES[voiceLanguage].wakeWords[0]}” - “${VOCABULARIES[voiceLanguage].wakeWords[0]}, mute drums”`
+                      : "🎤 Say an instrument or a command: “mute drums”, “tempo 95”, “stop”..."
+                    : "Use voice or buttons below to add tracks"}
                 </p>
               </div>
             </>
@@ -996,7 +2478,7 @@ export default function GrooveApp() {
             {/* Main BPM Control */}
             <div className="flex items-center justify-center gap-2 mb-4">
               <Button 
-                onClick={() => changeBPM(Math.max(60, currentBPM - 10))}
+                onClick={() => changeBPM(Math.max(MIN_BPM, currentBPM - 10))}
                 className="glass-pill h-8 w-8 p-0 text-white hover:brightness-110"
               >
                 -
@@ -1006,7 +2488,7 @@ export default function GrooveApp() {
                 <span className="text-white/70 text-sm ml-1">BPM</span>
               </div>
               <Button 
-                onClick={() => changeBPM(Math.min(200, currentBPM + 10))}
+                onClick={() => changeBPM(Math.min(MAX_BPM, currentBPM + 10))}
                 className="glass-pill h-8 w-8 p-0 text-white hover:brightness-110"
               >
                 +
@@ -1103,6 +2585,7 @@ export default function GrooveApp() {
             >
               <Button
                 onClick={toggleListening}
+                title={speechSupported ? undefined : "Voice input isn't supported in this browser - type a command instead"}
                 className={`glass-pill w-16 h-16 sm:w-20 sm:h-20 rounded-full text-white flex flex-col items-center justify-center gap-1 transition-all duration-300 ${
                   listening 
                     ? "bg-red-400/50 shadow-lg shadow-red-500/25 animate-pulse" 
@@ -1117,6 +2600,82 @@ export default function GrooveApp() {
             </motion.div>
           </div>
           
+          {/* Typed commands - same grammar as voice */}
+          <form
+            className="flex items-center gap-2 mt-6 max-w-md mx-auto"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitCommand();
+            }}
+          >
+            <input
+              ref={commandInputRef}
+              type="text"
+              list="groove-command-suggestions"
+              value={commandText}
+              onChange={(e) => setCommandText(e.target.value)}
+              placeholder='Type a command, e.g. "funky bass" or "mute drums"'
+              aria-label="Command"
+              autoComplete="off"
+              className="glass-input flex-1 min-w-0 px-4 py-2 text-sm text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <datalist id="groove-command-suggestions">
+              {getCommandSuggestions(commandText, { trackNames: tracks.map(t => t.name), language: voiceLanguage }).map(suggestion => (
+                <option key={suggestion} value={suggestion} />
+              ))}
+            </datalist>
+            <Button
+              type="submit"
+              disabled={!commandText.trim()}
+              className="glass-pill px-4 py-2 text-white hover:brightness-110"
+            >
+              Go
+            </Button>
+          </form>
+
+          {/* Voice settings */}
+          <div className="flex flex-wrap items-center justify-center gap-4 mt-4 text-sm text-white/80">
+            <label className="flex items-center gap-2">
+              <span>Language</span>
+              <select
+                value={voiceLanguage}
+                onChange={(e) => setVoiceLanguage(e.target.value as VoiceLanguage)}
+                className="text-sm text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                title="Recognition language and the words commands are matched against"
+              >
+                {VOICE_LANGUAGES.map(language => (
+                  <option key={language} value={language}>{VOCABULARIES[language].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2" title="How many tracks generate at the same time - the rest wait in a queue">
+              <span>Parallel</span>
+              <select
+                value={generationConcurrency}
+                onChange={(e) => setGenerationConcurrency(Number(e.target.value))}
+                className="text-sm text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {GENERATION_CONCURRENCY_OPTIONS.map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {speechSupported && (
+              <label
+                className="flex items-center gap-2"
+                title={`Keep the mic open and act on phrases that start with “${VOCABULARIES[voiceLanguage].wakeWords[0]}”`}
+              >
+                <input
+                  type="checkbox"
+                  checked={handsFree}
+                  onChange={(e) => changeHandsFree(e.target.checked)}
+                  className="accent-purple-500"
+                />
+                <span>Hands-free</span>
+              </label>
+            )}
+          </div>
+
           {tracks.length === 0 && (
             <motion.p 
               className="text-center text-white/60 text-sm mt-4"
@@ -1124,7 +2683,7 @@ export default function GrooveApp() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.5 }}
             >
-              Try saying: &ldquo;Jazz drums&rdquo;, &ldquo;Rock guitar&rdquo;, &ldquo;Acoustic piano&rdquo;, &ldquo;Funky bass&rdquo;
+              Try {speechSupported ? 'saying' : 'typing'}: &ldquo;Jazz drums&rdquo;, &ldquo;Rock guitar&rdquo;, &ldquo;Acoustic piano&rdquo;, &ldquo;Funky bass&rdquo;
             </motion.p>
           )}
         </CardContent>
@@ -1133,22 +2692,54 @@ export default function GrooveApp() {
       {/* History */}
       <Card className="max-w-2xl mx-auto mt-8 glass-card text-white/90">
         <CardContent className="p-6">
-          <h2 className="text-lg font-semibold text-white/90 mb-4">History</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-white/90">History</h2>
+            <div className="flex items-center gap-1">
+              <Button
+                onClick={undo}
+                disabled={!getUndoEntry(history)}
+                className="glass-pill h-8 w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110"
+                aria-label="Undo"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 size={14} />
+              </Button>
+              <Button
+                onClick={redo}
+                disabled={!getRedoEntry(history)}
+                className="glass-pill h-8 w-8 p-0 rounded-full flex items-center justify-center hover:brightness-110"
+                aria-label="Redo"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 size={14} />
+              </Button>
+            </div>
+          </div>
           <div className="space-y-2">
-            {history.length === 0 && (
+            {history.past.length === 0 && history.future.length === 0 && (
               <div className="text-white/70 text-sm">• No changes yet</div>
             )}
-            {history.map((h, i) => (
+            {history.past.map((entry, i) => (
               <motion.div
-                key={i}
+                key={entry.id}
                 className="text-sm text-white/90 glass-input px-3 py-2"
                 initial={{ opacity: 0, x: -10 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: i * 0.05 }}
               >
-                {h}
+                {describeAction(entry.action)}
               </motion.div>
             ))}
+            {/* Undone steps stay visible (dimmed) until a new action clears the redo stack */}
+            {[...history.future].reverse().map((entry) => (
+              <div
+                key={entry.id}
+                className="text-sm text-white/40 line-through glass-input px-3 py-2"
+                title="Undone - press Ctrl+Shift+Z to redo"
+              >
+                {describeAction(entry.action)}
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,191 @@
+"use client";
+
+import React from "react";
+import {
+  DEFAULT_TRACK_EFFECTS,
+  DELAY_BEAT_OPTIONS,
+  EQ_RANGE_DB,
+  FILTER_MODES,
+  MAX_DELAY_FEEDBACK,
+  MAX_FILTER_FREQUENCY,
+  MIN_FILTER_FREQUENCY,
+  type EffectParam,
+  type FilterMode,
+  type TrackEffects,
+} from "@/lib/audio/effects";
+
+export interface TrackEffectsPanelProps {
+  trackName: string;
+  effects: TrackEffects;
+  onChange: <P extends EffectParam>(param: P, value: TrackEffects[P]) => void;
+  className?: string;
+}
+
+const FILTER_LABELS: Record<FilterMode, string> = { off: "Off", lowpass: "Low-pass", highpass: "High-pass" };
+const DELAY_LABELS: Record<number, string> = { 0.25: "1/16", 0.5: "1/8", 0.75: "1/8 dotted", 1: "1/4" };
+
+const SELECT_CLASS =
+  "text-xs text-neutral-700 bg-neutral-100 border border-neutral-300 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+// The cutoff slider works on a log scale so each octave gets the same travel
+const toSlider = (frequency: number) => Math.log(frequency);
+const fromSlider = (value: number) => Math.round(Math.exp(value));
+
+function formatFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${(frequency / 1000).toFixed(1)}k` : `${frequency}`;
+}
+
+interface EffectSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  display: string;
+  ariaLabel: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+  onReset: () => void;
+}
+
+function EffectSlider({ label, value, min, max, step, display, ariaLabel, disabled, onChange, onReset }: EffectSliderProps) {
+  return (
+    <label className={`flex items-center gap-2 min-w-0 ${disabled ? "opacity-40" : ""}`}>
+      <span className="w-14 shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        onDoubleClick={onReset}
+        className="flex-1 min-w-0 accent-purple-500"
+        aria-label={ariaLabel}
+        title="Double-click to reset"
+      />
+      <span className="w-12 text-right shrink-0">{display}</span>
+    </label>
+  );
+}
+
+// Insert effects and reverb send of one track. Values are applied live by the mixer.
+export function TrackEffectsPanel({ trackName, effects, onChange, className = "" }: TrackEffectsPanelProps) {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const decibels = (value: number) => `${value > 0 ? "+" : ""}${value} dB`;
+  const eqBands = [
+    { param: "eqLow", label: "Low" },
+    { param: "eqMid", label: "Mid" },
+    { param: "eqHigh", label: "High" },
+  ] as const;
+
+  return (
+    <div className={`grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs text-white/80 ${className}`}>
+      {eqBands.map(({ param, label }) => (
+        <EffectSlider
+          key={param}
+          label={label}
+          value={effects[param]}
+          min={-EQ_RANGE_DB}
+          max={EQ_RANGE_DB}
+          step={0.5}
+          display={decibels(effects[param])}
+          ariaLabel={`${trackName} EQ ${label.toLowerCase()}`}
+          onChange={(value) => onChange(param, value)}
+          onReset={() => onChange(param, DEFAULT_TRACK_EFFECTS[param])}
+        />
+      ))}
+
+      <div className="flex items-center gap-2 min-w-0">
+        <span className="w-14 shrink-0">Filter</span>
+        <select
+          value={effects.filter}
+          onChange={(e) => onChange("filter", e.target.value as FilterMode)}
+          className={SELECT_CLASS}
+          aria-label={`${trackName} filter`}
+        >
+          {FILTER_MODES.map((mode) => (
+            <option key={mode} value={mode}>{FILTER_LABELS[mode]}</option>
+          ))}
+        </select>
+        <input
+          type="range"
+          min={toSlider(MIN_FILTER_FREQUENCY)}
+          max={toSlider(MAX_FILTER_FREQUENCY)}
+          step={0.01}
+          value={toSlider(effects.filterFrequency)}
+          disabled={effects.filter === "off"}
+          onChange={(e) => onChange("filterFrequency", fromSlider(Number(e.target.value)))}
+          className={`flex-1 min-w-0 accent-purple-500 ${effects.filter === "off" ? "opacity-40" : ""}`}
+          aria-label={`${trackName} filter cutoff`}
+        />
+        <span className="w-12 text-right shrink-0">{formatFrequency(effects.filterFrequency)}</span>
+      </div>
+
+      <EffectSlider
+        label="Comp"
+        value={effects.compression}
+        min={0}
+        max={1}
+        step={0.01}
+        display={effects.compression === 0 ? "Off" : percent(effects.compression)}
+        ariaLabel={`${trackName} compression`}
+        onChange={(value) => onChange("compression", value)}
+        onReset={() => onChange("compression", DEFAULT_TRACK_EFFECTS.compression)}
+      />
+
+      <div className="flex items-center gap-2 min-w-0">
+        <span className="w-14 shrink-0">Delay</span>
+        <select
+          value={effects.delayBeats}
+          onChange={(e) => onChange("delayBeats", Number(e.target.value))}
+          className={SELECT_CLASS}
+          aria-label={`${trackName} delay time`}
+        >
+          {DELAY_BEAT_OPTIONS.map((beats) => (
+            <option key={beats} value={beats}>{DELAY_LABELS[beats] ?? `${beats} beat`}</option>
+          ))}
+        </select>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={effects.delayMix}
+          onChange={(e) => onChange("delayMix", Number(e.target.value))}
+          onDoubleClick={() => onChange("delayMix", DEFAULT_TRACK_EFFECTS.delayMix)}
+          className="flex-1 min-w-0 accent-purple-500"
+          aria-label={`${trackName} delay level`}
+          title="Double-click to reset"
+        />
+        <span className="w-12 text-right shrink-0">{effects.delayMix === 0 ? "Off" : percent(effects.delayMix)}</span>
+      </div>
+
+      <EffectSlider
+        label="Feedback"
+        value={effects.delayFeedback}
+        min={0}
+        max={MAX_DELAY_FEEDBACK}
+        step={0.01}
+        display={percent(effects.delayFeedback)}
+        ariaLabel={`${trackName} delay feedback`}
+        disabled={effects.delayMix === 0}
+        onChange={(value) => onChange("delayFeedback", value)}
+        onReset={() => onChange("delayFeedback", DEFAULT_TRACK_EFFECTS.delayFeedback)}
+      />
+
+      <EffectSlider
+        label="Reverb"
+        value={effects.reverbSend}
+        min={0}
+        max={1}
+        step={0.01}
+        display={effects.reverbSend === 0 ? "Off" : percent(effects.reverbSend)}
+        ariaLabel={`${trackName} reverb send`}
+        onChange={(value) => onChange("reverbSend", value)}
+        onReset={() => onChange("reverbSend", DEFAULT_TRACK_EFFECTS.reverbSend)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { computeLoopRegion, type LoopBounds } from "@/lib/audio/loop-points";
+import { computePeaks, getGridLines, moveLoopEdge, type LoopEdges } from "@/lib/audio/waveform";
+import type { TimeSignature } from "@/lib/timing";
+
+export interface WaveformProps {
+  buffer: AudioBuffer;
+  bpm: number; // tempo of the audio - once stretched, its pulses are the session's
+  timeSignature: TimeSignature;
+  // Loop points set on the track; missing ones are detected like playback does
+  loopStart?: number;
+  loopEnd?: number;
+  playing: boolean;
+  // Seconds into the audio of what is audible right now, null when the track isn't playing
+  getPlayhead: () => number | null;
+  onLoopChange: (region: LoopEdges) => void;
+  className?: string;
+}
+
+const HEIGHT = 56;
+// How close (px) a pointer has to be to an edge to grab it
+const HANDLE_GRAB_PX = 8;
+
+// Canvas waveform of one take with its beat grid, the loop region and a live playhead.
+// The loop edges drag along the grid and are only committed on release.
+export function Waveform({
+  buffer,
+  bpm,
+  timeSignature,
+  loopStart,
+  loopEnd,
+  playing,
+  getPlayhead,
+  onLoopChange,
+  className = "",
+}: WaveformProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const playheadRef = useRef<HTMLDivElement | null>(null);
+  const [width, setWidth] = useState(0);
+  const [drag, setDrag] = useState<{ edge: keyof LoopEdges; from: LoopEdges; region: LoopEdges } | null>(null);
+  // The animation loop reads the latest callback without restarting on every parent render
+  const getPlayheadRef = useRef(getPlayhead);
+  getPlayheadRef.current = getPlayhead;
+
+  const channels = useMemo(() => {
+    const data: Float32Array[] = [];
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) data.push(buffer.getChannelData(ch));
+    return data;
+  }, [buffer]);
+
+  // The same region playback uses, so what's drawn is what loops
+  const loop = useMemo(() => {
+    const bounds: LoopBounds = { start: loopStart, end: loopEnd };
+    return computeLoopRegion(channels, buffer.sampleRate, bpm, timeSignature, bounds);
+  }, [channels, buffer.sampleRate, bpm, timeSignature, loopStart, loopEnd]);
+  const region = drag?.region ?? loop;
+  const peaks = useMemo(() => computePeaks(channels, Math.max(1, Math.round(width))), [channels, width]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = HEIGHT * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, HEIGHT);
+
+    const x = (time: number) => (time / buffer.duration) * width;
+    const regionLeft = x(region.start);
+    const regionRight = x(region.end);
+
+    context.fillStyle = "rgba(168, 85, 247, 0.25)";
+    context.fillRect(regionLeft, 0, regionRight - regionLeft, HEIGHT);
+
+    // Grid counted from the loop start, which plays as bar 1
+    for (const line of getGridLines(region.start, buffer.duration, bpm, timeSignature)) {
+      context.fillStyle = line.bar ? "rgba(255, 255, 255, 0.35)" : "rgba(255, 255, 255, 0.12)";
+      context.fillRect(Math.round(x(line.time)), 0, 1, HEIGHT);
+    }
+
+    const middle = HEIGHT / 2;
+    for (let column = 0; column < peaks.min.length; column++) {
+      const inside = column >= regionLeft && column <= regionRight;
+      context.fillStyle = inside ? "rgba(255, 255, 255, 0.9)" : "rgba(255, 255, 255, 0.35)";
+      const top = middle - peaks.max[column] * middle;
+      const bottom = middle - peaks.min[column] * middle;
+      context.fillRect(column, top, 1, Math.max(1, bottom - top));
+    }
+
+    context.fillStyle = "rgb(192, 132, 252)";
+    context.fillRect(regionLeft - 1, 0, 2, HEIGHT);
+    context.fillRect(regionRight - 1, 0, 2, HEIGHT);
+  }, [peaks, region, width, buffer.duration, bpm, timeSignature]);
+
+  // The playhead is moved straight on the DOM to avoid a render per frame
+  useEffect(() => {
+    const playhead = playheadRef.current;
+    if (!playing || !playhead) return;
+
+    let frame = requestAnimationFrame(function tick() {
+      const position = getPlayheadRef.current();
+      playhead.style.display = position === null ? "none" : "block";
+      if (position !== null) playhead.style.left = `${((position / buffer.duration) * 100).toFixed(2)}%`;
+      frame = requestAnimationFrame(tick);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      playhead.style.display = "none";
+    };
+  }, [playing, buffer.duration]);
+
+  function timeAt(event: React.PointerEvent): number {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return ((event.clientX - rect.left) / rect.width) * buffer.duration;
+  }
+
+  // The loop edge under the pointer, if it's close enough to grab
+  function edgeAt(event: React.PointerEvent<HTMLDivElement>): keyof LoopEdges | null {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const px = event.clientX - rect.left;
+    const toPx = (time: number) => (time / buffer.duration) * rect.width;
+    const startDistance = Math.abs(px - toPx(loop.start));
+    const endDistance = Math.abs(px - toPx(loop.end));
+    if (Math.min(startDistance, endDistance) > HANDLE_GRAB_PX) return null;
+    return startDistance <= endDistance ? "start" : "end";
+  }
+
+  function handlePointerDown(event: React.PointerEvent<HTMLDivElement>) {
+    const edge = edgeAt(event);
+    if (!edge) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ edge, from: loop, region: loop });
+  }
+
+  function handlePointerMove(event: React.PointerEvent<HTMLDivElement>) {
+    if (!drag) {
+      event.currentTarget.style.cursor = edgeAt(event) ? "ew-resize" : "";
+      return;
+    }
+    const next = moveLoopEdge(drag.from, drag.edge, timeAt(event), buffer.duration, bpm, timeSignature);
+    if (next.start !== drag.region.start || next.end !== drag.region.end) setDrag({ ...drag, region: next });
+  }
+
+  function handlePointerUp() {
+    if (!drag) return;
+    const { from, region: next } = drag;
+    setDrag(null);
+    if (next.start !== from.start || next.end !== from.end) onLoopChange(next);
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full touch-none select-none ${className}`}
+      style={{ height: HEIGHT }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+      title="Drag the loop edges to change the loop - they snap to the beat"
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div ref={playheadRef} className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ display: "none" }} />
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+// IndexedDB storage for generated track audio.
+// Blob URLs die with the page, so the MP3 bytes are kept here under the track id
+// and turned back into fresh blob URLs when a saved session is restored.
+
+const DB_NAME = "groove-app-audio";
+const DB_VERSION = 1;
+const STORE_NAME = "tracks";
+
+// Eviction policy: least recently used entries are dropped once either limit is hit
+export const MAX_STORED_BYTES = 50 * 1024 * 1024;
+export const MAX_STORED_ENTRIES = 40;
+
+interface StoredAudio {
+  id: number;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+interface RestorableTrack {
+  id: number;
+  url: string | null;
+  stale?: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([requestToPromise(run(tx.objectStore(STORE_NAME))), done]);
+  return result;
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "QuotaExceededError";
+}
+
+// Drop least recently used entries until both limits are satisfied
+async function enforceQuota(keepId: number, extraBytes = 0): Promise<void> {
+  const entries = await withStore<StoredAudio[]>("readonly", (store) => store.getAll());
+  let totalBytes = entries.reduce((sum, e) => sum + e.size, 0) + extraBytes;
+  let count = entries.length;
+
+  const candidates = entries
+    .filter((e) => e.id !== keepId)
+    .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+  for (const entry of candidates) {
+    if (totalBytes <= MAX_STORED_BYTES && count <= MAX_STORED_ENTRIES) break;
+    await deleteTrackAudio(entry.id);
+    totalBytes -= entry.size;
+    count--;
+    console.log(`🧹 Evicted stored audio for track ${entry.id} (${(entry.size / 1024).toFixed(2)} KB)`);
+  }
+}
+
+export async function saveTrackAudio(id: number, blob: Blob): Promise<void> {
+  if (!isSupported()) return;
+
+  const now = Date.now();
+  const entry: StoredAudio = { id, blob, size: blob.size, createdAt: now, lastAccessed: now };
+
+  try {
+    await withStore("readwrite", (store) => store.put(entry));
+  } catch (err) {
+    if (!isQuotaError(err)) throw err;
+    // Browser quota hit before ours - make room and try once more
+    console.warn(`⚠️ Storage quota exceeded while saving track ${id}, evicting old audio`);
+    await enforceQuota(id, blob.size);
+    await withStore("readwrite", (store) => store.put(entry));
+  }
+
+  await enforceQuota(id);
+}
+
+export async function loadTrackAudio(id: number): Promise<Blob | null> {
+  if (!isSupported()) return null;
+
+  const entry = await withStore<StoredAudio | undefined>("readonly", (store) => store.get(id));
+  if (!entry) return null;
+
+  // Touch the entry so eviction keeps recently used audio
+  await withStore("readwrite", (store) => store.put({ ...entry, lastAccessed: Date.now() }));
+  return entry.blob;
+}
+
+export async function deleteTrackAudio(id: number): Promise<void> {
+  if (!isSupported()) return;
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+export async function clearTrackAudio(): Promise<void> {
+  if (!isSupported()) return;
+  await withStore("readwrite", (store) => store.clear());
+}
+
+// Remove stored audio that no longer belongs to any track
+export async function pruneTrackAudio(liveIds: number[]): Promise<void> {
+  if (!isSupported()) return;
+
+  const keys = await withStore<IDBValidKey[]>("readonly", (store) => store.getAllKeys());
+  const live = new Set(liveIds);
+  for (const key of keys) {
+    if (typeof key === "number" && !live.has(key)) {
+      await deleteTrackAudio(key);
+    }
+  }
+}
+
+// Rebuild blob URLs for saved tracks. Tracks whose audio was evicted (or never
+// stored) come back with url = null and stale = true so the UI can flag them.
+export async function restoreTrackUrls<T extends RestorableTrack>(tracks: T[]): Promise<T[]> {
+  return Promise.all(
+    tracks.map(async (track) => {
+      // Never finished generating - nothing to restore
+      if (!track.url && !track.stale) return track;
+
+      try {
+        const blob = await loadTrackAudio(track.id);
+        if (blob) {
+          return { ...track, url: URL.createObjectURL(blob), stale: false };
+        }
+      } catch (err) {
+        console.warn(`⚠️ Failed to restore audio for track ${track.id}:`, err);
+      }
+      return { ...track, url: null, stale: true };
+    })
+  );
+}
@@ -0,0 +1,61 @@
+// Per-track insert effects, saved on the track. Every field has a neutral default, so
+// tracks saved before effects existed (or never touched) sound exactly as before.
+export type FilterMode = "off" | "lowpass" | "highpass";
+
+export interface TrackEffects {
+  eqLow: number; // dB, shelf below EQ_LOW_HZ
+  eqMid: number; // dB, bell at EQ_MID_HZ
+  eqHigh: number; // dB, shelf above EQ_HIGH_HZ
+  filter: FilterMode;
+  filterFrequency: number; // Hz cutoff
+  compression: number; // 0 (off) .. 1 - threshold and ratio follow from it
+  delayMix: number; // 0..1 level of the echoes
+  delayBeats: number; // echo time in beats of the session tempo
+  delayFeedback: number; // 0..MAX_DELAY_FEEDBACK
+  reverbSend: number; // 0..1 post-fader level into the shared reverb
+}
+
+export type EffectParam = keyof TrackEffects;
+
+export const EQ_LOW_HZ = 250;
+export const EQ_MID_HZ = 1000;
+export const EQ_HIGH_HZ = 4000;
+export const EQ_RANGE_DB = 12;
+export const MIN_FILTER_FREQUENCY = 40;
+export const MAX_FILTER_FREQUENCY = 18000;
+export const FILTER_MODES: FilterMode[] = ["off", "lowpass", "highpass"];
+// Sixteenth, eighth, dotted eighth, quarter
+export const DELAY_BEAT_OPTIONS = [0.25, 0.5, 0.75, 1];
+// Kept under 1 so the echoes always die out
+export const MAX_DELAY_FEEDBACK = 0.85;
+// Longest echo: a quarter note at the slowest tempo
+export const MAX_DELAY_SECONDS = 1;
+
+export const DEFAULT_TRACK_EFFECTS: TrackEffects = {
+  eqLow: 0,
+  eqMid: 0,
+  eqHigh: 0,
+  filter: "off",
+  filterFrequency: 1000,
+  compression: 0,
+  delayMix: 0,
+  delayBeats: 0.75,
+  delayFeedback: 0.35,
+  reverbSend: 0,
+};
+
+export function getDelaySeconds(effects: TrackEffects, bpm: number): number {
+  return Math.min(MAX_DELAY_SECONDS, (effects.delayBeats * 60) / bpm);
+}
+
+// Compressor settings for an amount: from transparent at 0 to heavy squashing at 1
+export function getCompressorSettings(amount: number): { threshold: number; ratio: number } {
+  return { threshold: -30 * amount, ratio: 1 + 7 * amount };
+}
+
+export function hasEffects(effects: TrackEffects): boolean {
+  return (Object.keys(DEFAULT_TRACK_EFFECTS) as EffectParam[]).some(
+    (param) => param !== "filterFrequency" && param !== "delayBeats" && param !== "delayFeedback"
+      && effects[param] !== DEFAULT_TRACK_EFFECTS[param]
+  );
+}
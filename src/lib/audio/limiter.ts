@@ -0,0 +1,56 @@
+// Master limiter, shared by live playback and the offline renderer: a fast, hard-ratio
+// compressor catches the summed tracks, and a soft clipper behind it guarantees the
+// output never passes the ceiling even on transients the compressor is too slow for.
+export const LIMITER_CEILING_DBFS = -0.3;
+const LIMITER_THRESHOLD_DBFS = -1.5;
+const LIMITER_ATTACK_SECONDS = 0.002;
+const LIMITER_RELEASE_SECONDS = 0.12;
+// Below this fraction of the ceiling the clipper passes audio untouched
+const CLIPPER_KNEE = 0.85;
+const CLIPPER_CURVE_POINTS = 8193;
+
+export interface Limiter {
+  input: AudioNode;
+  compressor: DynamicsCompressorNode;
+  disconnect: () => void;
+}
+
+// Linear up to the knee, then eases into the ceiling; inputs past ±1 hold at the curve's ends
+export function createClipperCurve(ceiling: number, points = CLIPPER_CURVE_POINTS): Float32Array<ArrayBuffer> {
+  const knee = ceiling * CLIPPER_KNEE;
+  const range = ceiling - knee;
+  const curve = new Float32Array(points);
+  for (let i = 0; i < points; i++) {
+    const x = (i / (points - 1)) * 2 - 1;
+    const magnitude = Math.abs(x);
+    const shaped = magnitude <= knee ? magnitude : knee + range * Math.tanh((magnitude - knee) / range);
+    curve[i] = Math.sign(x) * shaped;
+  }
+  return curve;
+}
+
+// The compressor node adds its own makeup gain - under 1dB at these settings
+export function createLimiter(ctx: BaseAudioContext, destination: AudioNode): Limiter {
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.threshold.value = LIMITER_THRESHOLD_DBFS;
+  compressor.knee.value = 0;
+  compressor.ratio.value = 20;
+  compressor.attack.value = LIMITER_ATTACK_SECONDS;
+  compressor.release.value = LIMITER_RELEASE_SECONDS;
+
+  const clipper = ctx.createWaveShaper();
+  clipper.curve = createClipperCurve(Math.pow(10, LIMITER_CEILING_DBFS / 20));
+  clipper.oversample = "2x";
+
+  compressor.connect(clipper);
+  clipper.connect(destination);
+
+  return {
+    input: compressor,
+    compressor,
+    disconnect: () => {
+      compressor.disconnect();
+      clipper.disconnect();
+    },
+  };
+}
@@ -0,0 +1,149 @@
+// Bar-accurate loop points for generated audio.
+// The loop starts where the audio actually starts (leading silence skipped, or a
+// realigned downbeat; nudged to a zero crossing) and runs for a whole number of bars at the track's
+// BPM, unless the loop points were picked by hand. The seam is smoothed with a short crossfade so it doesn't click.
+import { calculateLoopBars, secondsPerBar, DEFAULT_TIME_SIGNATURE, type TimeSignature } from "@/lib/timing";
+
+export interface LoopRegion {
+  start: number; // seconds
+  end: number; // seconds
+  bars: number;
+}
+
+export interface PreparedLoop extends LoopRegion {
+  buffer: AudioBuffer;
+}
+
+// Loop points set on the track (seconds); whatever is missing is detected
+export type LoopBounds = Partial<Pick<LoopRegion, "start" | "end">>;
+
+// Loop points in a time-stretched copy of the audio
+export function scaleLoopBounds(bounds: LoopBounds, factor: number): LoopBounds {
+  return {
+    start: bounds.start !== undefined ? bounds.start * factor : undefined,
+    end: bounds.end !== undefined ? bounds.end * factor : undefined,
+  };
+}
+
+// -40 dBFS - anything quieter at the head of the file counts as silence
+export const SILENCE_THRESHOLD = 0.01;
+// Never skip more than this; beyond it the "silence" is probably a musical rest
+export const MAX_LEADING_SILENCE = 1.0;
+export const ZERO_CROSSING_WINDOW = 0.002;
+export const CROSSFADE_SECONDS = 0.01;
+
+export function detectLeadingSilence(
+  channels: Float32Array[],
+  sampleRate: number,
+  threshold = SILENCE_THRESHOLD
+): number {
+  const maxFrames = Math.min(channels[0]?.length ?? 0, Math.round(MAX_LEADING_SILENCE * sampleRate));
+  for (let i = 0; i < maxFrames; i++) {
+    for (const data of channels) {
+      if (Math.abs(data[i]) > threshold) return i / sampleRate;
+    }
+  }
+  return maxFrames / sampleRate;
+}
+
+// Nearest frame (within maxDistance) where the signal changes sign, or the input frame
+export function findNearestZeroCrossing(data: Float32Array, frame: number, maxDistance: number): number {
+  for (let offset = 0; offset <= maxDistance; offset++) {
+    for (const candidate of [frame - offset, frame + offset]) {
+      if (candidate <= 0 || candidate >= data.length) continue;
+      if ((data[candidate - 1] <= 0 && data[candidate] >= 0) || (data[candidate - 1] >= 0 && data[candidate] <= 0)) {
+        return candidate;
+      }
+    }
+  }
+  return frame;
+}
+
+export function computeLoopRegion(
+  channels: Float32Array[],
+  sampleRate: number,
+  bpm: number,
+  timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE,
+  bounds: LoopBounds = {}
+): LoopRegion {
+  const totalFrames = channels[0]?.length ?? 0;
+  const duration = totalFrames / sampleRate;
+  const barLength = secondsPerBar(bpm, timeSignature);
+
+  const headEnd = Math.round((bounds.start ?? detectLeadingSilence(channels, sampleRate)) * sampleRate);
+  const startFrame = channels.length > 0
+    ? findNearestZeroCrossing(channels[0], headEnd, Math.round(ZERO_CROSSING_WINDOW * sampleRate))
+    : 0;
+  const start = startFrame / sampleRate;
+
+  if (bounds.end !== undefined && bounds.end > start) {
+    // Hand-picked end - any number of beats, so `bars` may be fractional
+    const end = Math.min(bounds.end, duration);
+    return { start, end, bars: (end - start) / barLength };
+  }
+
+  // As many whole bars as fit after the start, up to the length we asked the provider for
+  const fittingBars = Math.floor((duration - start) / barLength + 1e-6);
+  const bars = Math.min(calculateLoopBars(bpm, timeSignature), fittingBars);
+
+  if (bars < 1) {
+    // Shorter than a bar - loop whatever there is
+    return { start: 0, end: duration, bars: 0 };
+  }
+
+  return { start, end: start + bars * barLength, bars };
+}
+
+// Blend the head of the loop with the audio that follows loopEnd (or, when the file
+// ends right at loopEnd, fade the seam) so playback wraps around without a click.
+export function applyLoopCrossfade(channels: Float32Array[], sampleRate: number, region: LoopRegion): void {
+  const startFrame = Math.round(region.start * sampleRate);
+  const endFrame = Math.round(region.end * sampleRate);
+  const fadeFrames = Math.min(Math.round(CROSSFADE_SECONDS * sampleRate), Math.floor((endFrame - startFrame) / 2));
+  if (fadeFrames <= 0) return;
+
+  for (const data of channels) {
+    const tailAvailable = data.length - endFrame;
+
+    if (tailAvailable >= fadeFrames) {
+      // Equal-power crossfade: at the seam the head starts with what would have followed the end
+      for (let i = 0; i < fadeFrames; i++) {
+        const x = i / fadeFrames;
+        const fadeIn = Math.sin((x * Math.PI) / 2);
+        const fadeOut = Math.cos((x * Math.PI) / 2);
+        data[startFrame + i] = data[startFrame + i] * fadeIn + data[endFrame + i] * fadeOut;
+      }
+    } else {
+      // No material past the end - short fade out/in around the seam instead
+      for (let i = 0; i < fadeFrames; i++) {
+        const gain = i / fadeFrames;
+        data[startFrame + i] *= gain;
+        data[endFrame - 1 - i] *= gain;
+      }
+    }
+  }
+}
+
+// Copy the decoded buffer, compute bar-accurate loop points and bake the seam crossfade in
+export function prepareLoop(
+  ctx: BaseAudioContext,
+  source: AudioBuffer,
+  bpm: number,
+  timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE,
+  bounds: LoopBounds = {}
+): PreparedLoop {
+  const buffer = ctx.createBuffer(source.numberOfChannels, source.length, source.sampleRate);
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < source.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    data.set(source.getChannelData(ch));
+    channels.push(data);
+  }
+
+  const region = computeLoopRegion(channels, source.sampleRate, bpm, timeSignature, bounds);
+  if (region.bars > 0) {
+    applyLoopCrossfade(channels, source.sampleRate, region);
+  }
+
+  return { ...region, buffer };
+}
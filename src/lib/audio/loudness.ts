@@ -0,0 +1,133 @@
+// Loudness matching for generated tracks. Integrated loudness follows ITU-R BS.1770:
+// K-weighting (head shelf + low cut), 400ms blocks with 75% overlap, then the
+// absolute (-70 LUFS) and relative (-10 LU) gates. Peak is the sample peak.
+
+export interface LoudnessAnalysis {
+  integrated: number; // LUFS; -Infinity for silence
+  peak: number; // dBFS
+}
+
+// Level every track is matched to. Quieter than a finished master so a handful of
+// tracks can sum without slamming the limiter.
+export const TARGET_LOUDNESS_LUFS = -20;
+// Never push a track's own peak above this
+export const PEAK_CEILING_DBFS = -1;
+// Near-silent or very sparse loops would otherwise get an absurd boost
+export const MAX_NORMALIZATION_BOOST_DB = 12;
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_HOP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// BS.1770 filters, re-derived for the buffer's sample rate (the spec tabulates 48kHz only)
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  // Stage 1: +4dB high shelf modelling the head
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const shelf: Biquad = {
+    b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+    b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+  };
+
+  // Stage 2: high-pass around 38Hz (RLB weighting)
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (passK * passK - 1)) / passA0,
+    a2: (1 - passK / passQ + passK * passK) / passA0,
+  };
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return output;
+}
+
+function toLufs(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+export function measureLoudnessChannels(channels: Float32Array[], sampleRate: number): LoudnessAnalysis {
+  const length = channels[0]?.length ?? 0;
+
+  let peak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+
+  const filters = kWeightingFilters(sampleRate);
+  const weighted = channels.map((data) => filters.reduce(applyBiquad, data));
+
+  // Mean square per block, summed over channels (front channels all weigh 1.0).
+  // Clips shorter than one block are measured as a single block.
+  const blockLength = Math.min(length, Math.round(BLOCK_SECONDS * sampleRate));
+  const hop = Math.max(1, Math.round(BLOCK_HOP_SECONDS * sampleRate));
+  const blocks: number[] = [];
+  for (let start = 0; blockLength > 0 && start + blockLength <= length; start += hop) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) sum += data[i] * data[i];
+      power += sum / blockLength;
+    }
+    blocks.push(power);
+  }
+
+  const aboveAbsolute = blocks.filter((power) => power > 0 && toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) {
+    return { integrated: -Infinity, peak: peak > 0 ? 20 * Math.log10(peak) : -Infinity };
+  }
+  const mean = (powers: number[]) => powers.reduce((total, power) => total + power, 0) / powers.length;
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter((power) => toLufs(power) > relativeGate);
+
+  return {
+    integrated: Math.round(toLufs(mean(gated.length > 0 ? gated : aboveAbsolute)) * 10) / 10,
+    peak: Math.round(20 * Math.log10(peak) * 10) / 10,
+  };
+}
+
+export function measureLoudness(source: AudioBuffer): LoudnessAnalysis {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < source.numberOfChannels; ch++) channels.push(source.getChannelData(ch));
+  return measureLoudnessChannels(channels, source.sampleRate);
+}
+
+// Linear gain that brings a track to the target loudness, without boosting silence
+// or lifting its peak over the ceiling
+export function getNormalizationGain(analysis: LoudnessAnalysis, target = TARGET_LOUDNESS_LUFS): number {
+  if (!Number.isFinite(analysis.integrated) || !Number.isFinite(analysis.peak)) return 1;
+  const gainDb = Math.min(target - analysis.integrated, MAX_NORMALIZATION_BOOST_DB, PEAK_CEILING_DBFS - analysis.peak);
+  return Math.pow(10, gainDb / 20);
+}
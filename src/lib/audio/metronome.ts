@@ -0,0 +1,117 @@
+// Click track for live playback, scheduled a little ahead on the transport clock so
+// it stays sample-locked to the loops. It plays straight to the speakers - never
+// through the master bus - so exports (rendered offline from tracks) can't pick it up.
+import { timeAtBeat, beatsAt, type TransportClock } from "@/lib/audio/transport";
+import { DEFAULT_TIME_SIGNATURE, type TimeSignature } from "@/lib/timing";
+
+export const DEFAULT_METRONOME_VOLUME = 0.5;
+export const COUNT_IN_OPTIONS = [0, 1, 2]; // bars
+
+// Look-ahead scheduling: wake up every TICK_MS and queue the clicks due in the next LOOKAHEAD_SECONDS
+const TICK_MS = 25;
+const LOOKAHEAD_SECONDS = 0.1;
+const CLICK_SECONDS = 0.05;
+
+export type ClickAccent = "downbeat" | "group" | "pulse";
+
+export interface Metronome {
+  start: () => void;
+  stop: () => void;
+  setEnabled: (enabled: boolean) => void;
+  setVolume: (volume: number) => void;
+  setTimeSignature: (timeSignature: TimeSignature) => void;
+}
+
+// Compound meters (6/8, 12/8) are felt in groups of three pulses
+export function getClickAccent(pulseIndex: number, timeSignature: TimeSignature): ClickAccent {
+  const inBar = ((pulseIndex % timeSignature.beats) + timeSignature.beats) % timeSignature.beats;
+  if (inBar === 0) return "downbeat";
+  const compound = timeSignature.noteValue === 8 && timeSignature.beats % 3 === 0 && timeSignature.beats > 3;
+  return compound && inBar % 3 === 0 ? "group" : "pulse";
+}
+
+// Quarter-note beats of a count-in of `bars` bars in the given meter
+export function getCountInBeats(bars: number, timeSignature: TimeSignature): number {
+  return bars * timeSignature.beats * (4 / timeSignature.noteValue);
+}
+
+const CLICK_PITCH: Record<ClickAccent, number> = { downbeat: 1760, group: 1320, pulse: 880 };
+const CLICK_LEVEL: Record<ClickAccent, number> = { downbeat: 1, group: 0.75, pulse: 0.55 };
+
+function scheduleClick(ctx: BaseAudioContext, destination: AudioNode, time: number, accent: ClickAccent) {
+  const osc = ctx.createOscillator();
+  osc.type = "sine";
+  osc.frequency.value = CLICK_PITCH[accent];
+
+  const envelope = ctx.createGain();
+  envelope.gain.setValueAtTime(0, time);
+  envelope.gain.linearRampToValueAtTime(CLICK_LEVEL[accent], time + 0.001);
+  envelope.gain.exponentialRampToValueAtTime(0.001, time + CLICK_SECONDS);
+
+  osc.connect(envelope);
+  envelope.connect(destination);
+  osc.onended = () => envelope.disconnect();
+  osc.start(time);
+  osc.stop(time + CLICK_SECONDS);
+}
+
+// Count-in clicks (negative beats) always sound; the rest only while the metronome is enabled
+export function createMetronome(
+  ctx: BaseAudioContext,
+  getClock: () => TransportClock | null,
+  destination: AudioNode
+): Metronome {
+  const output = ctx.createGain();
+  output.gain.value = DEFAULT_METRONOME_VOLUME;
+  output.connect(destination);
+
+  let enabled = false;
+  let timeSignature = DEFAULT_TIME_SIGNATURE;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let nextPulse: number | null = null; // index of the next unscheduled pulse, 0 = beat 0
+  let lastClickTime = -Infinity; // guards against double clicks when the pulse grid is rebuilt
+
+  function tick() {
+    const clock = getClock();
+    if (!clock) return;
+
+    const pulseBeats = 4 / timeSignature.noteValue;
+    nextPulse ??= Math.ceil(beatsAt(clock, ctx.currentTime) / pulseBeats);
+    const horizon = ctx.currentTime + LOOKAHEAD_SECONDS;
+
+    let time = timeAtBeat(clock, nextPulse * pulseBeats);
+    while (time < horizon) {
+      if (time >= ctx.currentTime && time > lastClickTime + 1e-3 && (enabled || nextPulse < 0)) {
+        scheduleClick(ctx, output, time, getClickAccent(nextPulse, timeSignature));
+        lastClickTime = time;
+      }
+      nextPulse++;
+      time = timeAtBeat(clock, nextPulse * pulseBeats);
+    }
+  }
+
+  return {
+    start: () => {
+      nextPulse = null;
+      lastClickTime = -Infinity;
+      if (timer === null) timer = setInterval(tick, TICK_MS);
+      tick();
+    },
+    stop: () => {
+      if (timer !== null) clearInterval(timer);
+      timer = null;
+      nextPulse = null;
+    },
+    setEnabled: (value) => {
+      enabled = value;
+    },
+    setVolume: (volume) => {
+      output.gain.setTargetAtTime(volume, ctx.currentTime, 0.015);
+    },
+    // Takes effect from the next pulse; the pulse grid restarts from the current position
+    setTimeSignature: (value) => {
+      timeSignature = value;
+      nextPulse = null;
+    },
+  };
+}
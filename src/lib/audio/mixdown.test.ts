@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_MIXDOWN_OPTIONS,
+  getMixLoopLength,
+  getMixdownLength,
+  renderMixdown,
+  type MixdownOptions,
+  type MixdownTrack,
+} from "@/lib/audio/mixdown";
+import { DEFAULT_TRACK_EFFECTS } from "@/lib/audio/effects";
+
+// Node has no Web Audio, so the render runs against a context that records the graph and
+// every scheduled value instead of producing samples.
+type ParamEvent = [kind: string, value: number, time: number];
+
+class FakeParam {
+  events: ParamEvent[] = [];
+  constructor(public value = 0) {}
+  setValueAtTime(value: number, time: number) {
+    this.events.push(["set", value, time]);
+  }
+  linearRampToValueAtTime(value: number, time: number) {
+    this.events.push(["ramp", value, time]);
+  }
+  setTargetAtTime(value: number, time: number) {
+    this.events.push(["target", value, time]);
+  }
+  cancelScheduledValues() {}
+}
+
+class FakeNode {
+  outputs: FakeNode[] = [];
+  [key: string]: unknown;
+  constructor(public kind: string, params: Record<string, number> = {}) {
+    for (const [name, value] of Object.entries(params)) this[name] = new FakeParam(value);
+  }
+  connect(node: FakeNode) {
+    this.outputs.push(node);
+    return node;
+  }
+  disconnect() {
+    this.outputs = [];
+  }
+}
+
+class FakeSource extends FakeNode {
+  started: number[] = [];
+  stopped: number[] = [];
+  constructor() {
+    super("source", { playbackRate: 1 });
+  }
+  start(...args: number[]) {
+    this.started = args;
+  }
+  stop(time: number) {
+    this.stopped = [time];
+  }
+}
+
+class FakeOfflineAudioContext {
+  static last: FakeOfflineAudioContext;
+  nodes: FakeNode[] = [];
+  destination = new FakeNode("destination");
+  currentTime = 0;
+
+  constructor(public numberOfChannels: number, public length: number, public sampleRate: number) {
+    FakeOfflineAudioContext.last = this;
+  }
+
+  private add<T extends FakeNode>(node: T): T {
+    this.nodes.push(node);
+    return node;
+  }
+
+  createGain = () => this.add(new FakeNode("gain", { gain: 1 }));
+  createStereoPanner = () => this.add(new FakeNode("panner", { pan: 0 }));
+  createBiquadFilter = () => this.add(new FakeNode("biquad", { frequency: 350, gain: 0, Q: 1 }));
+  createDynamicsCompressor = () =>
+    this.add(new FakeNode("compressor", { threshold: -24, knee: 30, ratio: 12, attack: 0.003, release: 0.25 }));
+  createDelay = () => this.add(new FakeNode("delay", { delayTime: 0 }));
+  createWaveShaper = () => this.add(new FakeNode("waveshaper"));
+  createConvolver = () => this.add(new FakeNode("convolver"));
+  createBufferSource = () => this.add(new FakeSource());
+  createBuffer = (channels: number, length: number) => {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { numberOfChannels: channels, length, getChannelData: (ch: number) => data[ch] };
+  };
+
+  async startRendering() {
+    return { numberOfChannels: this.numberOfChannels, length: this.length, sampleRate: this.sampleRate, duration: this.length / this.sampleRate };
+  }
+
+  sources(): FakeSource[] {
+    return this.nodes.filter((node): node is FakeSource => node instanceof FakeSource);
+  }
+
+  // Every node downstream of `from`, in breadth-first order
+  reachable(from: FakeNode): FakeNode[] {
+    const seen = new Set<FakeNode>();
+    const queue = [...from.outputs];
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (seen.has(node)) continue;
+      seen.add(node);
+      queue.push(...node.outputs);
+    }
+    return [...seen];
+  }
+}
+
+function param(node: FakeNode, name: string): FakeParam {
+  return node[name] as FakeParam;
+}
+
+// The fader is the gain feeding the track's panner; the master is the gain the panner feeds
+function describeTrack(ctx: FakeOfflineAudioContext, source: FakeSource) {
+  const input = source.outputs[0];
+  const downstream = ctx.reachable(source);
+  const panner = downstream.find((node) => node.kind === "panner")!;
+  const fader = downstream.find((node) => node.kind === "gain" && node.outputs.includes(panner))!;
+  return {
+    loop: [source.loop, source.loopStart, source.loopEnd],
+    playbackRate: param(source, "playbackRate").value,
+    started: source.started,
+    stopped: source.stopped,
+    normalization: param(input, "gain").value,
+    gain: param(fader, "gain").value,
+    pan: param(panner, "pan").value,
+    master: panner.outputs.find((node) => node.kind === "gain")!,
+  };
+}
+
+const buffer = { duration: 4, sampleRate: 44100 } as AudioBuffer;
+
+const drums: MixdownTrack = { buffer, loopStart: 0.1, loopEnd: 2.1, playbackRate: 1, gain: 0.8, pan: -0.5 };
+// A 3s loop played 1.5x faster - also 2s of output
+const bass: MixdownTrack = { buffer, loopStart: 0.25, loopEnd: 3.25, playbackRate: 1.5, gain: 0.6, pan: 0.25, normalization: 0.5 };
+
+const options: MixdownOptions = { ...DEFAULT_MIXDOWN_OPTIONS, repetitions: 3, fadeOutSeconds: 1.5, masterGain: 0.9 };
+
+describe("mixdown timing", () => {
+  it("uses the longest loop in output time as one pass", () => {
+    expect(getMixLoopLength([drums, bass])).toBe(2);
+    expect(getMixLoopLength([drums, { ...bass, playbackRate: 0.75 }])).toBe(4);
+    expect(getMixLoopLength([])).toBe(0);
+  });
+
+  it("renders the repetitions plus the fade tail", () => {
+    expect(getMixdownLength([drums, bass], options)).toEqual({ bodySeconds: 6, totalSeconds: 7.5, length: 330750 });
+    expect(getMixdownLength([drums], { ...options, sampleRate: 48000 }).length).toBe(360000);
+  });
+
+  it("always renders at least one pass and never a negative tail", () => {
+    expect(getMixdownLength([drums], { ...options, repetitions: 0, fadeOutSeconds: -1 })).toEqual({
+      bodySeconds: 2,
+      totalSeconds: 2,
+      length: 88200,
+    });
+  });
+});
+
+describe("renderMixdown", () => {
+  beforeEach(() => {
+    vi.stubGlobal("OfflineAudioContext", FakeOfflineAudioContext);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("renders a stereo buffer of the computed length", async () => {
+    const rendered = await renderMixdown([drums, bass], options);
+    const ctx = FakeOfflineAudioContext.last;
+    expect([ctx.numberOfChannels, ctx.length, ctx.sampleRate]).toEqual([2, 330750, 44100]);
+    expect(rendered.duration).toBe(7.5);
+  });
+
+  it("loops every track from its loop start until the end of the tail", async () => {
+    await renderMixdown([drums, bass], options);
+    const [first, second] = FakeOfflineAudioContext.last.sources().map((source) => describeTrack(FakeOfflineAudioContext.last, source));
+
+    expect(first).toMatchObject({ loop: [true, 0.1, 2.1], playbackRate: 1, started: [0, 0.1], stopped: [7.5] });
+    expect(second).toMatchObject({ loop: [true, 0.25, 3.25], playbackRate: 1.5, started: [0, 0.25], stopped: [7.5] });
+  });
+
+  it("applies each track's normalization, gain and pan", async () => {
+    await renderMixdown([drums, bass], options);
+    const [first, second] = FakeOfflineAudioContext.last.sources().map((source) => describeTrack(FakeOfflineAudioContext.last, source));
+
+    expect(first).toMatchObject({ normalization: 1, gain: 0.8, pan: -0.5 });
+    expect(second).toMatchObject({ normalization: 0.5, gain: 0.6, pan: 0.25 });
+    expect(first.master).toBe(second.master);
+  });
+
+  it("holds the master gain through the body and fades it out over the tail", async () => {
+    await renderMixdown([drums, bass], options);
+    const ctx = FakeOfflineAudioContext.last;
+    const master = describeTrack(ctx, ctx.sources()[0]).master;
+
+    expect(param(master, "gain").value).toBe(0.9);
+    expect(param(master, "gain").events).toEqual([
+      ["set", 0.9, 6],
+      ["ramp", 0, 7.5],
+    ]);
+  });
+
+  it("routes the master through the limiter unless it is turned off", async () => {
+    await renderMixdown([drums], options);
+    let ctx = FakeOfflineAudioContext.last;
+    let master = describeTrack(ctx, ctx.sources()[0]).master;
+    expect(master.outputs.map((node) => node.kind)).toEqual(["compressor"]);
+    expect(ctx.reachable(master)).toContain(ctx.destination);
+
+    await renderMixdown([drums], { ...options, fadeOutSeconds: 0, limiter: false });
+    ctx = FakeOfflineAudioContext.last;
+    master = describeTrack(ctx, ctx.sources()[0]).master;
+    expect(master.outputs).toEqual([ctx.destination]);
+    expect(param(master, "gain").events).toEqual([]);
+  });
+
+  it("builds the send reverb only when a track uses it", async () => {
+    await renderMixdown([drums, bass], options);
+    expect(FakeOfflineAudioContext.last.nodes.some((node) => node.kind === "convolver")).toBe(false);
+
+    await renderMixdown([drums, { ...bass, effects: { ...DEFAULT_TRACK_EFFECTS, reverbSend: 0.4 } }], options);
+    expect(FakeOfflineAudioContext.last.nodes.filter((node) => node.kind === "convolver")).toHaveLength(1);
+  });
+
+  it("schedules the same graph for the same input", async () => {
+    const snapshot = async () => {
+      await renderMixdown([drums, bass], options);
+      const ctx = FakeOfflineAudioContext.last;
+      return ctx.sources().map((source) => {
+        const { master, ...track } = describeTrack(ctx, source);
+        return { ...track, fade: param(master, "gain").events };
+      });
+    };
+    expect(await snapshot()).toEqual(await snapshot());
+  });
+});
@@ -0,0 +1,92 @@
+// Offline mixdown of the groove to a single stereo buffer.
+// Everything is scheduled at fixed offline times with no randomness, so the same
+// tracks and options always render the same samples.
+import { createTrackChain, type TrackChainSettings } from "@/lib/audio/track-chain";
+import { createLimiter } from "@/lib/audio/limiter";
+import { createReverb } from "@/lib/audio/reverb";
+import { audioBufferToWav, type WavBitDepth } from "@/lib/audio/wav";
+
+export interface MixdownTrack extends TrackChainSettings {
+  buffer: AudioBuffer;
+  loopStart: number;
+  loopEnd: number;
+  playbackRate: number;
+}
+
+export interface MixdownOptions {
+  repetitions: number;
+  fadeOutSeconds: number;
+  bitDepth: WavBitDepth;
+  masterGain: number;
+  limiter: boolean; // same master limiter as live playback
+  sampleRate?: number;
+}
+
+export const DEFAULT_MIXDOWN_OPTIONS: MixdownOptions = {
+  repetitions: 4,
+  fadeOutSeconds: 2,
+  bitDepth: 16,
+  masterGain: 1,
+  limiter: true,
+};
+
+export const EXPORT_SAMPLE_RATE = 44100;
+
+// Length of one pass of the groove in output time - the longest track loop
+export function getMixLoopLength(tracks: MixdownTrack[]): number {
+  return tracks.reduce((max, t) => Math.max(max, (t.loopEnd - t.loopStart) / t.playbackRate), 0);
+}
+
+// The repeated loops, then the fade-out tail; `length` is the rendered frame count
+export function getMixdownLength(
+  tracks: MixdownTrack[],
+  options: MixdownOptions
+): { bodySeconds: number; totalSeconds: number; length: number } {
+  const sampleRate = options.sampleRate ?? EXPORT_SAMPLE_RATE;
+  const bodySeconds = getMixLoopLength(tracks) * Math.max(1, options.repetitions);
+  const totalSeconds = bodySeconds + Math.max(0, options.fadeOutSeconds);
+  return { bodySeconds, totalSeconds, length: Math.max(1, Math.ceil(totalSeconds * sampleRate)) };
+}
+
+export async function renderMixdown(tracks: MixdownTrack[], options: MixdownOptions): Promise<AudioBuffer> {
+  const sampleRate = options.sampleRate ?? EXPORT_SAMPLE_RATE;
+  const { bodySeconds, totalSeconds, length } = getMixdownLength(tracks, options);
+
+  const ctx = new OfflineAudioContext(2, length, sampleRate);
+
+  const master = ctx.createGain();
+  master.gain.value = options.masterGain;
+  master.connect(options.limiter ? createLimiter(ctx, ctx.destination).input : ctx.destination);
+
+  // The tail keeps the loops running while the master fades to silence
+  if (options.fadeOutSeconds > 0) {
+    master.gain.setValueAtTime(options.masterGain, bodySeconds);
+    master.gain.linearRampToValueAtTime(0, totalSeconds);
+  }
+
+  // Only built when a track sends to it - convolving silence still costs render time
+  const reverb = tracks.some((track) => (track.effects?.reverbSend ?? 0) > 0) ? createReverb(ctx, master) : null;
+
+  for (const track of tracks) {
+    const source = ctx.createBufferSource();
+    source.buffer = track.buffer;
+    source.loop = true;
+    source.loopStart = track.loopStart;
+    source.loopEnd = track.loopEnd;
+    source.playbackRate.value = track.playbackRate;
+
+    const chain = createTrackChain(ctx, track, master, reverb?.input);
+    source.connect(chain.input);
+    source.start(0, track.loopStart);
+    source.stop(totalSeconds);
+  }
+
+  const rendered = await ctx.startRendering();
+  console.log(`💿 Rendered mixdown: ${tracks.length} tracks, ${options.repetitions} loops, ${rendered.duration.toFixed(2)}s`);
+  return rendered;
+}
+
+export async function exportMixdownWav(tracks: MixdownTrack[], options: MixdownOptions): Promise<Blob> {
+  const rendered = await renderMixdown(tracks, options);
+  return new Blob([audioBufferToWav(rendered, options.bitDepth)], { type: "audio/wav" });
+}
@@ -0,0 +1,58 @@
+// Shared send reverb: one ConvolverNode every track's reverb send feeds, with a generated
+// impulse response. The noise is seeded so offline renders stay deterministic.
+export const REVERB_SECONDS = 2.4;
+// Higher decays faster
+const REVERB_DECAY = 3;
+// Early reflections arrive after a short gap, which keeps the dry hit clear
+const REVERB_PREDELAY_SECONDS = 0.015;
+
+export interface Reverb {
+  input: GainNode;
+  convolver: ConvolverNode;
+  disconnect: () => void;
+}
+
+// Small deterministic PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Exponentially decaying noise, decorrelated between channels for width
+export function createImpulseResponse(ctx: BaseAudioContext, seconds = REVERB_SECONDS, decay = REVERB_DECAY): AudioBuffer {
+  const length = Math.max(1, Math.round(seconds * ctx.sampleRate));
+  const predelay = Math.round(REVERB_PREDELAY_SECONDS * ctx.sampleRate);
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let ch = 0; ch < impulse.numberOfChannels; ch++) {
+    const random = createRandom(ch + 1);
+    const data = impulse.getChannelData(ch);
+    for (let i = predelay; i < length; i++) {
+      data[i] = (random() * 2 - 1) * Math.pow(1 - i / length, decay);
+    }
+  }
+  return impulse;
+}
+
+export function createReverb(ctx: BaseAudioContext, destination: AudioNode): Reverb {
+  const input = ctx.createGain();
+  const convolver = ctx.createConvolver();
+  convolver.buffer = createImpulseResponse(ctx);
+
+  input.connect(convolver);
+  convolver.connect(destination);
+
+  return {
+    input,
+    convolver,
+    disconnect: () => {
+      input.disconnect();
+      convolver.disconnect();
+    },
+  };
+}
@@ -0,0 +1,115 @@
+// Stems export: one bar-aligned WAV per track plus a project.json manifest, zipped.
+// Stems are rendered dry (unity gain, centred, no effects, not normalized or limited) - the
+// manifest carries the mixer and effect settings so a DAW session can be rebuilt from it.
+import type { Track } from "@/lib/track";
+import { formatTimeSignature, type TimeSignature } from "@/lib/timing";
+import { getTrackEffects, getTrackNormalization, getTrackPan, getTrackVolume } from "@/lib/mixer";
+import type { TrackEffects } from "@/lib/audio/effects";
+import { renderMixdown, EXPORT_SAMPLE_RATE, type MixdownTrack } from "@/lib/audio/mixdown";
+import { audioBufferToWav, type WavBitDepth } from "@/lib/audio/wav";
+import { createZip, type ZipEntry } from "@/lib/zip";
+import { slugify } from "@/lib/download";
+
+export interface StemSource {
+  track: Track;
+  loop: Pick<MixdownTrack, "buffer" | "loopStart" | "loopEnd" | "playbackRate">;
+  bars: number;
+}
+
+export interface StemsSession {
+  bpm: number;
+  timeSignature: TimeSignature;
+  masterVolume: number;
+}
+
+export interface StemsManifestTrack {
+  file: string;
+  name: string;
+  instrument?: string;
+  style?: string;
+  prompt?: string;
+  generatedBpm?: number;
+  timeSignature: string;
+  bars: number;
+  durationSeconds: number;
+  gain: number;
+  normalization: number; // loudness-matching gain the app applies in front of `gain`
+  pan: number;
+  effects: TrackEffects;
+  muted: boolean;
+  solo: boolean;
+}
+
+export interface StemsManifest {
+  format: "groove-stems";
+  version: 1;
+  exportedAt: string;
+  bpm: number;
+  timeSignature: string;
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  masterVolume: number;
+  tracks: StemsManifestTrack[];
+}
+
+export const STEMS_MANIFEST_FILE = "project.json";
+
+// One dry pass of the loop, trimmed exactly to loopStart..loopEnd
+export async function renderStem(source: StemSource): Promise<AudioBuffer> {
+  return renderMixdown([{ ...source.loop, gain: 1, pan: 0 }], {
+    repetitions: 1,
+    fadeOutSeconds: 0,
+    bitDepth: 16,
+    masterGain: 1,
+    limiter: false,
+  });
+}
+
+export async function exportStemsZip(
+  stems: StemSource[],
+  session: StemsSession,
+  bitDepth: WavBitDepth
+): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const manifestTracks: StemsManifestTrack[] = [];
+
+  for (const [index, stem] of stems.entries()) {
+    const rendered = await renderStem(stem);
+    const file = `${String(index + 1).padStart(2, "0")}-${slugify(stem.track.name)}.wav`;
+    entries.push({ name: file, data: audioBufferToWav(rendered, bitDepth) });
+
+    manifestTracks.push({
+      file,
+      name: stem.track.name,
+      instrument: stem.track.instrument,
+      style: stem.track.style,
+      prompt: stem.track.prompt,
+      generatedBpm: stem.track.bpm,
+      timeSignature: formatTimeSignature(stem.track.timeSignature ?? session.timeSignature),
+      bars: stem.bars,
+      durationSeconds: Math.round(rendered.duration * 1000) / 1000,
+      gain: getTrackVolume(stem.track),
+      normalization: getTrackNormalization(stem.track),
+      pan: getTrackPan(stem.track),
+      effects: getTrackEffects(stem.track),
+      muted: !!stem.track.muted,
+      solo: !!stem.track.solo,
+    });
+  }
+
+  const manifest: StemsManifest = {
+    format: "groove-stems",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    bpm: session.bpm,
+    timeSignature: formatTimeSignature(session.timeSignature),
+    sampleRate: EXPORT_SAMPLE_RATE,
+    bitDepth,
+    masterVolume: session.masterVolume,
+    tracks: manifestTracks,
+  };
+  entries.push({ name: STEMS_MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) });
+
+  console.log(`📦 Bundled ${stems.length} stems + ${STEMS_MANIFEST_FILE}`);
+  return createZip(entries);
+}
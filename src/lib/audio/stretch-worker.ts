@@ -0,0 +1,14 @@
+// Worker entry for createStretcher: runs WSOLA and hands the channels back without copying
+import { wsolaStretch } from "@/lib/audio/time-stretch";
+import type { StretchRequest, StretchResponse } from "@/lib/audio/stretcher";
+
+self.onmessage = (event: MessageEvent<StretchRequest>) => {
+  const { id, channels, sampleRate, tempoRatio } = event.data;
+  let response: StretchResponse;
+  try {
+    response = { id, channels: wsolaStretch(channels, sampleRate, tempoRatio) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response, { transfer: "channels" in response ? response.channels.map((data) => data.buffer) : [] });
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createStretcher, type StretchRequest, type StretchResponse } from "@/lib/audio/stretcher";
+import { wsolaStretch } from "@/lib/audio/time-stretch";
+
+const SAMPLE_RATE = 8000;
+
+function fakeBuffer(channels: Float32Array[]): AudioBuffer {
+  return {
+    numberOfChannels: channels.length,
+    length: channels[0].length,
+    sampleRate: SAMPLE_RATE,
+    duration: channels[0].length / SAMPLE_RATE,
+    getChannelData: (ch: number) => channels[ch],
+  } as unknown as AudioBuffer;
+}
+
+const ctx = {
+  createBuffer: (channels: number, length: number) =>
+    fakeBuffer(Array.from({ length: channels }, () => new Float32Array(length))),
+} as unknown as BaseAudioContext;
+
+function sine(seconds: number, hz: number): Float32Array {
+  return Float32Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+}
+
+// Answers on a later task like a real worker, running the same WSOLA the worker entry does
+class FakeWorker {
+  static last: FakeWorker;
+  onmessage: ((event: MessageEvent<StretchResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: StretchRequest[] = [];
+  transfers: Transferable[][] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+
+  postMessage(request: StretchRequest, transfer: Transferable[]) {
+    this.requests.push(request);
+    this.transfers.push(transfer);
+    setTimeout(() => {
+      const { id, channels, sampleRate, tempoRatio } = request;
+      const response: StretchResponse =
+        tempoRatio > 0 ? { id, channels: wsolaStretch(channels, sampleRate, tempoRatio) } : { id, error: "bad ratio" };
+      this.onmessage?.({ data: response } as MessageEvent<StretchResponse>);
+    }, 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe("createStretcher", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("stretches in a worker without giving away the decoded audio", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const left = sine(1, 220);
+    const right = sine(1, 330);
+    const stretcher = createStretcher();
+
+    const stretched = await stretcher.stretch(ctx, fakeBuffer([left, right]), 1.25);
+
+    expect(stretched.length).toBe(6400);
+    expect(stretched.numberOfChannels).toBe(2);
+    expect(Array.from(stretched.getChannelData(0))).toEqual(Array.from(wsolaStretch([left, right], SAMPLE_RATE, 1.25)[0]));
+
+    const [request] = FakeWorker.last.requests;
+    expect(request.channels[0]).not.toBe(left);
+    expect(FakeWorker.last.transfers[0]).toEqual(request.channels.map((data) => data.buffer));
+  });
+
+  it("rejects the request the worker couldn't stretch, and everything pending once it's disposed", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const stretcher = createStretcher();
+    const source = fakeBuffer([sine(0.5, 220)]);
+
+    await expect(stretcher.stretch(ctx, source, -1)).rejects.toThrow("bad ratio");
+
+    const pending = stretcher.stretch(ctx, source, 1.5);
+    stretcher.dispose();
+    await expect(pending).rejects.toThrow("Stretcher disposed");
+    expect(FakeWorker.last.terminated).toBe(true);
+  });
+
+  it("falls back to stretching in order on the main thread without Worker support", async () => {
+    vi.stubGlobal("Worker", undefined);
+    const stretcher = createStretcher();
+    const source = fakeBuffer([sine(1, 220)]);
+    const finished: number[] = [];
+
+    const first = stretcher.stretch(ctx, source, 2).then((buffer) => finished.push(buffer.length));
+    const second = stretcher.stretch(ctx, source, 0.5).then((buffer) => finished.push(buffer.length));
+    // Nothing runs until the caller has yielded
+    expect(finished).toEqual([]);
+
+    await Promise.all([first, second]);
+    expect(finished).toEqual([4000, 16000]);
+  });
+});
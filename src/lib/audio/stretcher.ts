@@ -0,0 +1,70 @@
+// Quality-mode stretches run here instead of on the main thread, so a tempo change with several
+// tracks playing doesn't stall the UI or audio scheduling. Requests are handled one at a time.
+// Without Worker support (tests, older browsers) they still run in order, yielding between each.
+import { createStretchedBuffer, getChannels, stretchBuffer } from "@/lib/audio/time-stretch";
+
+export interface StretchRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+  tempoRatio: number;
+}
+
+export type StretchResponse = { id: number; channels: Float32Array[] } | { id: number; error: string };
+
+export interface Stretcher {
+  stretch: (ctx: BaseAudioContext, source: AudioBuffer, tempoRatio: number) => Promise<AudioBuffer>;
+  dispose: () => void;
+}
+
+function nextTask(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+export function createStretcher(): Stretcher {
+  const worker = typeof Worker === "undefined" ? null : new Worker(new URL("./stretch-worker.ts", import.meta.url));
+  const pending = new Map<number, { resolve: (channels: Float32Array[]) => void; reject: (err: Error) => void }>();
+  let nextId = 1;
+  let inline: Promise<unknown> = Promise.resolve();
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<StretchResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      pending.delete(response.id);
+      if ("error" in response) request?.reject(new Error(response.error));
+      else request?.resolve(response.channels);
+    };
+    worker.onerror = (event) => {
+      console.error("❌ Stretch worker failed:", event.message);
+      pending.forEach((request) => request.reject(new Error(event.message || "Stretch worker failed")));
+      pending.clear();
+    };
+  }
+
+  function stretch(ctx: BaseAudioContext, source: AudioBuffer, tempoRatio: number): Promise<AudioBuffer> {
+    if (!worker) {
+      const run = inline.then(nextTask).then(() => stretchBuffer(ctx, source, tempoRatio));
+      inline = run.catch(() => {});
+      return run;
+    }
+
+    // Copies, so the decoded buffer stays usable once these are transferred away
+    const id = nextId++;
+    const channels = getChannels(source).map((data) => data.slice());
+    return new Promise<Float32Array[]>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      const request: StretchRequest = { id, channels, sampleRate: source.sampleRate, tempoRatio };
+      worker.postMessage(request, channels.map((data) => data.buffer));
+    }).then((stretched) => createStretchedBuffer(ctx, source, stretched, tempoRatio));
+  }
+
+  return {
+    stretch,
+    dispose: () => {
+      worker?.terminate();
+      pending.forEach((request) => request.reject(new Error("Stretcher disposed")));
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,224 @@
+// Tempo and downbeat estimation for generated audio. The provider is asked for the
+// session BPM but doesn't always deliver it, so each decoded take is measured:
+// an onset envelope, autocorrelation for the tempo, then a phase search for the beat
+// grid and the strongest pulse of the bar for the downbeat.
+import { detectLeadingSilence } from "@/lib/audio/loop-points";
+import { MAX_BPM, MIN_BPM } from "@/lib/music/request";
+import { DEFAULT_TIME_SIGNATURE, secondsPerBar, type TimeSignature } from "@/lib/timing";
+
+export interface TempoAnalysis {
+  bpm: number; // measured, one decimal
+  expectedBPM: number; // tempo the audio was generated for
+  downbeatOffset: number; // seconds from the start of the file to the first downbeat
+  audioStart: number; // where the loop starts without realignment (end of leading silence)
+  confidence: number; // 0..1 - how periodic the onsets are
+}
+
+// Onset envelope resolution: ~5.8ms per frame at 44.1kHz, each frame measuring ~23ms of audio
+const HOP_SIZE = 256;
+const WINDOW_SIZE = 1024;
+const COMPRESSION = 1000;
+// Beat multiples summed when scoring a period - sharpens the peak and resolves fractions of a frame
+const COMB_HARMONICS = 4;
+const FINE_SEARCH_RANGE = 0.04; // ±4% around the coarse peak
+const FINE_SEARCH_STEP_BPM = 0.05;
+// Half/double time, and the dotted pulse of compound meters, are easy to confuse with the real tempo.
+// Such a reading replaces the raw peak when it is nearer the requested tempo and at least this strong.
+const RELATED_TEMPO_FACTORS = [0.5, 2, 2 / 3, 3 / 2];
+const RELATED_SCORE_RATIO = 0.5;
+// Half and double the generation range - a measured tempo (and a take corrected to it) stays within these
+export const MIN_MEASURED_BPM = MIN_BPM / 2;
+export const MAX_MEASURED_BPM = MAX_BPM * 2;
+
+// Below this the audio has no clear pulse (pads, drones) and isn't flagged
+export const MIN_TEMPO_CONFIDENCE = 0.2;
+// Off by more than this and the loop drifts audibly against the grid within a few bars
+export const TEMPO_TOLERANCE = 0.015;
+export const DOWNBEAT_TOLERANCE_SECONDS = 0.03;
+
+// Half-wave rectified rise in compressed energy of the mono signal, one value per hop
+export interface OnsetEnvelope {
+  envelope: Float32Array;
+  frameRate: number; // frames per second
+  latency: number; // seconds between a frame's index time and the onsets it reports
+}
+
+export function computeOnsetEnvelope(channels: Float32Array[], sampleRate: number): OnsetEnvelope {
+  const length = channels[0]?.length ?? 0;
+  const mono = new Float32Array(length);
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) mono[i] += data[i] / channels.length;
+  }
+
+  const frames = Math.max(0, Math.floor((length - WINDOW_SIZE) / HOP_SIZE) + 1);
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * HOP_SIZE; i < f * HOP_SIZE + WINDOW_SIZE; i++) sum += mono[i] * mono[i];
+    // Log-like compression so quiet hits count, without blowing up the noise floor
+    energy[f] = Math.log1p(COMPRESSION * (sum / WINDOW_SIZE));
+  }
+
+  const envelope = new Float32Array(frames);
+  for (let f = 1; f < frames; f++) {
+    envelope[f] = Math.max(0, energy[f] - energy[f - 1]);
+  }
+
+  // Remove the mean so the autocorrelation measures periodicity, not loudness
+  const mean = envelope.reduce((total, value) => total + value, 0) / Math.max(1, frames);
+  for (let f = 0; f < frames; f++) envelope[f] -= mean;
+
+  // A hit shows up as soon as it enters the window, which ends WINDOW_SIZE after the frame starts
+  return { envelope, frameRate: sampleRate / HOP_SIZE, latency: (WINDOW_SIZE - HOP_SIZE) / sampleRate };
+}
+
+// Linear interpolation so periods and phases don't have to be whole frames
+function sampleAt(envelope: Float32Array, position: number): number {
+  const index = Math.floor(position);
+  if (index < 0 || index + 1 >= envelope.length) return 0;
+  const fraction = position - index;
+  return envelope[index] * (1 - fraction) + envelope[index + 1] * fraction;
+}
+
+function autocorrelation(envelope: Float32Array, lag: number): number {
+  let sum = 0;
+  const count = Math.floor(envelope.length - lag);
+  for (let i = 0; i < count; i++) sum += envelope[i] * sampleAt(envelope, i + lag);
+  return count > 0 ? sum / count : 0;
+}
+
+function combScore(envelope: Float32Array, period: number): number {
+  let score = 0;
+  for (let k = 1; k <= COMB_HARMONICS; k++) score += autocorrelation(envelope, period * k);
+  return score / COMB_HARMONICS;
+}
+
+export function estimateTempo(
+  envelope: Float32Array,
+  frameRate: number,
+  expectedBPM: number
+): { bpm: number; confidence: number } {
+  const periodFor = (bpm: number) => (60 / bpm) * frameRate;
+  const energy = autocorrelation(envelope, 0);
+  if (energy <= 0) return { bpm: expectedBPM, confidence: 0 };
+
+  // Coarse pass: every whole-frame lag in the supported tempo range
+  let bestBPM = expectedBPM;
+  let bestScore = -Infinity;
+  for (let lag = Math.floor(periodFor(MAX_BPM)); lag <= Math.ceil(periodFor(MIN_BPM)); lag++) {
+    const score = combScore(envelope, lag);
+    if (score > bestScore) {
+      bestScore = score;
+      bestBPM = (60 * frameRate) / lag;
+    }
+  }
+
+  // Fine pass around the peak in small BPM steps
+  for (let bpm = bestBPM * (1 - FINE_SEARCH_RANGE); bpm <= bestBPM * (1 + FINE_SEARCH_RANGE); bpm += FINE_SEARCH_STEP_BPM) {
+    const score = combScore(envelope, periodFor(bpm));
+    if (score > bestScore) {
+      bestScore = score;
+      bestBPM = bpm;
+    }
+  }
+
+  // Autocorrelation can't tell these apart well - lean towards what was asked for
+  let bpm = bestBPM;
+  for (const factor of RELATED_TEMPO_FACTORS) {
+    const candidate = bestBPM * factor;
+    if (candidate < MIN_MEASURED_BPM || candidate > MAX_MEASURED_BPM) continue;
+    const closer = Math.abs(Math.log(candidate / expectedBPM)) < Math.abs(Math.log(bpm / expectedBPM));
+    if (closer && combScore(envelope, periodFor(candidate)) >= bestScore * RELATED_SCORE_RATIO) bpm = candidate;
+  }
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    confidence: Math.min(1, Math.max(0, bestScore / energy)),
+  };
+}
+
+// Sum of the envelope along a grid of `period` frames starting at `phase`
+function gridScore(envelope: Float32Array, phase: number, period: number): number {
+  let score = 0;
+  for (let position = phase; position < envelope.length; position += period) score += sampleAt(envelope, position);
+  return score;
+}
+
+// Seconds to the first downbeat (within about a bar): the best-fitting pulse grid,
+// then the pulse of the bar with the strongest onsets
+export function estimateDownbeat(
+  { envelope, frameRate, latency }: OnsetEnvelope,
+  bpm: number,
+  timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE
+): number {
+  const pulsePeriod = (60 / bpm) * (4 / timeSignature.noteValue) * frameRate;
+  const barPeriod = pulsePeriod * timeSignature.beats;
+
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let phase = 0; phase < pulsePeriod; phase += 0.5) {
+    const score = gridScore(envelope, phase, pulsePeriod);
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  let downbeat = bestPhase;
+  let downbeatScore = -Infinity;
+  for (let pulse = 0; pulse < timeSignature.beats; pulse++) {
+    const phase = bestPhase + pulse * pulsePeriod;
+    const score = gridScore(envelope, phase, barPeriod);
+    if (score > downbeatScore) {
+      downbeatScore = score;
+      downbeat = phase;
+    }
+  }
+
+  // A downbeat a hair before the end of the bar is really the one at the very start
+  const barLength = barPeriod / frameRate;
+  const offset = (downbeat / frameRate + latency) % barLength;
+  return offset > barLength - DOWNBEAT_TOLERANCE_SECONDS ? offset - barLength : offset;
+}
+
+export function analyzeTempo(
+  source: AudioBuffer,
+  expectedBPM: number,
+  timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE
+): TempoAnalysis {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < source.numberOfChannels; ch++) channels.push(source.getChannelData(ch));
+
+  const onsets = computeOnsetEnvelope(channels, source.sampleRate);
+  const { bpm, confidence } = estimateTempo(onsets.envelope, onsets.frameRate, expectedBPM);
+  const audioStart = detectLeadingSilence(channels, source.sampleRate);
+
+  // The first downbeat that isn't inside the leading silence
+  const barLength = secondsPerBar(bpm, timeSignature);
+  let downbeatOffset = estimateDownbeat(onsets, bpm, timeSignature);
+  while (downbeatOffset + DOWNBEAT_TOLERANCE_SECONDS < audioStart) downbeatOffset += barLength;
+
+  return {
+    bpm,
+    expectedBPM,
+    downbeatOffset: Math.round(Math.max(0, downbeatOffset) * 1000) / 1000,
+    audioStart: Math.round(audioStart * 1000) / 1000,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
+
+// Relative difference between the measured and the requested tempo
+export function getTempoDeviation(analysis: TempoAnalysis): number {
+  return (analysis.bpm - analysis.expectedBPM) / analysis.expectedBPM;
+}
+
+export function isTempoOff(analysis: TempoAnalysis): boolean {
+  return analysis.confidence >= MIN_TEMPO_CONFIDENCE && Math.abs(getTempoDeviation(analysis)) > TEMPO_TOLERANCE;
+}
+
+export function isDownbeatOff(analysis: TempoAnalysis): boolean {
+  return (
+    analysis.confidence >= MIN_TEMPO_CONFIDENCE &&
+    Math.abs(analysis.downbeatOffset - analysis.audioStart) > DOWNBEAT_TOLERANCE_SECONDS
+  );
+}
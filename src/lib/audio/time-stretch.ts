@@ -0,0 +1,132 @@
+// Tempo changes for generated loops.
+// "varispeed" just changes playbackRate (tempo and pitch move together);
+// "quality" renders a pitch-preserving WSOLA stretch into a new AudioBuffer.
+
+export type StretchMode = "varispeed" | "quality";
+
+export const DEFAULT_STRETCH_MODE: StretchMode = "varispeed";
+
+// Beyond this range both methods sound bad enough that it's better to regenerate
+export const MIN_TEMPO_RATIO = 0.5;
+export const MAX_TEMPO_RATIO = 2;
+
+const FRAME_SECONDS = 0.05;
+const SEEK_SECONDS = 0.012;
+// Cross-correlation is evaluated on every Nth sample to keep the search cheap
+const CORRELATION_STEP = 4;
+
+export function getTempoRatio(sessionBPM: number, trackBPM: number | undefined): number {
+  if (!trackBPM) return 1;
+  return Math.min(MAX_TEMPO_RATIO, Math.max(MIN_TEMPO_RATIO, sessionBPM / trackBPM));
+}
+
+function hannWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    // Periodic Hann - sums to a constant at 50% overlap
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length);
+  }
+  return window;
+}
+
+// Offset in [-seek, seek] where the input best continues the reference
+function findBestOffset(mono: Float32Array, reference: Float32Array, nominal: number, seek: number, length: number): number {
+  let bestOffset = 0;
+  let bestScore = -Infinity;
+  for (let offset = -seek; offset <= seek; offset++) {
+    const start = nominal + offset;
+    if (start < 0 || start + length > mono.length) continue;
+    let score = 0;
+    for (let i = 0; i < length; i += CORRELATION_STEP) {
+      score += mono[start + i] * reference[i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+  return bestOffset;
+}
+
+// WSOLA: overlap-add windowed frames read at tempoRatio speed, each frame nudged
+// to the position that best matches the natural continuation of the previous one.
+// All channels share the same frame positions so the stereo image stays intact.
+export function wsolaStretch(channels: Float32Array[], sampleRate: number, tempoRatio: number): Float32Array[] {
+  if (channels.length === 0 || Math.abs(tempoRatio - 1) < 1e-3) {
+    return channels.map((data) => new Float32Array(data));
+  }
+
+  const inputLength = channels[0].length;
+  const outputLength = Math.round(inputLength / tempoRatio);
+  const frameLength = 2 * Math.round((FRAME_SECONDS * sampleRate) / 2);
+  const synthesisHop = frameLength / 2;
+  const analysisHop = synthesisHop * tempoRatio;
+  const seek = Math.round(SEEK_SECONDS * sampleRate);
+  const window = hannWindow(frameLength);
+
+  // Mono mixdown drives the similarity search
+  const mono = new Float32Array(inputLength);
+  for (const data of channels) {
+    for (let i = 0; i < inputLength; i++) mono[i] += data[i] / channels.length;
+  }
+
+  const outputs = channels.map(() => new Float32Array(outputLength + frameLength));
+  const reference = new Float32Array(synthesisHop);
+  let previousStart = 0;
+
+  for (let frame = 0; frame * synthesisHop < outputLength; frame++) {
+    const outStart = frame * synthesisHop;
+    let inStart = Math.round(frame * analysisHop);
+
+    if (frame > 0) {
+      // What would naturally follow the previous frame's first half
+      const natural = previousStart + synthesisHop;
+      for (let i = 0; i < synthesisHop; i++) {
+        reference[i] = natural + i < inputLength ? mono[natural + i] : 0;
+      }
+      inStart += findBestOffset(mono, reference, inStart, seek, synthesisHop);
+    }
+    inStart = Math.max(0, Math.min(inStart, inputLength - 1));
+    previousStart = inStart;
+
+    channels.forEach((data, ch) => {
+      const out = outputs[ch];
+      for (let i = 0; i < frameLength; i++) {
+        const src = inStart + i;
+        if (src >= inputLength) break;
+        // The very first frame has nothing to overlap with, so don't fade it in
+        const gain = frame === 0 && i < synthesisHop ? 1 : window[i];
+        out[outStart + i] += data[src] * gain;
+      }
+    });
+  }
+
+  return outputs.map((out) => out.subarray(0, outputLength));
+}
+
+export function getChannels(source: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < source.numberOfChannels; ch++) {
+    channels.push(source.getChannelData(ch));
+  }
+  return channels;
+}
+
+// Wrap wsolaStretch output (from here or the stretch worker) in an AudioBuffer
+export function createStretchedBuffer(
+  ctx: BaseAudioContext,
+  source: AudioBuffer,
+  stretched: Float32Array[],
+  tempoRatio: number
+): AudioBuffer {
+  const buffer = ctx.createBuffer(source.numberOfChannels, Math.max(1, stretched[0].length), source.sampleRate);
+  stretched.forEach((data, ch) => buffer.getChannelData(ch).set(data));
+
+  console.log(`⏩ Stretched ${source.duration.toFixed(2)}s → ${buffer.duration.toFixed(2)}s (tempo x${tempoRatio.toFixed(3)})`);
+  return buffer;
+}
+
+// Render a pitch-preserving stretched copy of a decoded buffer
+export function stretchBuffer(ctx: BaseAudioContext, source: AudioBuffer, tempoRatio: number): AudioBuffer {
+  return createStretchedBuffer(ctx, source, wsolaStretch(getChannels(source), source.sampleRate, tempoRatio), tempoRatio);
+}
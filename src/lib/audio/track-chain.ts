@@ -0,0 +1,145 @@
+// Per-track node chain, shared by live playback and the offline renderer so both
+// paths process audio identically:
+// input -> normalization -> EQ low/mid/high -> filter -> compressor -> gain -> panner -> destination
+// The delay (with feedback) runs beside the compressor into the fader; the reverb send taps the panner.
+import {
+  DEFAULT_TRACK_EFFECTS,
+  EQ_HIGH_HZ,
+  EQ_LOW_HZ,
+  EQ_MID_HZ,
+  MAX_DELAY_SECONDS,
+  getCompressorSettings,
+  getDelaySeconds,
+  type TrackEffects,
+} from "@/lib/audio/effects";
+
+export interface TrackChainSettings {
+  gain: number;
+  pan: number;
+  normalization?: number; // loudness-matching gain in front of the fader
+  effects?: TrackEffects;
+  bpm?: number; // session tempo the delay follows
+}
+
+export interface TrackChain {
+  input: AudioNode;
+  normalization: GainNode;
+  gain: GainNode;
+  panner: StereoPannerNode;
+  // With `smoothing` (a time constant) values glide there, otherwise they jump - for chains not yet playing
+  setEffects: (effects: TrackEffects, bpm: number, smoothing?: number) => void;
+  disconnect: () => void;
+}
+
+const FALLBACK_BPM = 120;
+
+export function createTrackChain(
+  ctx: BaseAudioContext,
+  settings: TrackChainSettings,
+  destination: AudioNode,
+  reverb?: AudioNode
+): TrackChain {
+  const normalization = ctx.createGain();
+  normalization.gain.value = settings.normalization ?? 1;
+
+  const eqLow = ctx.createBiquadFilter();
+  eqLow.type = "lowshelf";
+  eqLow.frequency.value = EQ_LOW_HZ;
+  const eqMid = ctx.createBiquadFilter();
+  eqMid.type = "peaking";
+  eqMid.frequency.value = EQ_MID_HZ;
+  eqMid.Q.value = 1;
+  const eqHigh = ctx.createBiquadFilter();
+  eqHigh.type = "highshelf";
+  eqHigh.frequency.value = EQ_HIGH_HZ;
+  const filter = ctx.createBiquadFilter();
+
+  // The compressor delays its output slightly, so it is only patched in while it's doing something
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.knee.value = 6;
+  compressor.attack.value = 0.01;
+  compressor.release.value = 0.2;
+
+  const delay = ctx.createDelay(MAX_DELAY_SECONDS);
+  const delayFeedback = ctx.createGain();
+  const delayMix = ctx.createGain();
+
+  const gain = ctx.createGain();
+  gain.gain.value = settings.gain;
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = settings.pan;
+  const reverbSend = ctx.createGain();
+
+  normalization.connect(eqLow);
+  eqLow.connect(eqMid);
+  eqMid.connect(eqHigh);
+  eqHigh.connect(filter);
+  compressor.connect(gain);
+  delay.connect(delayFeedback);
+  delayFeedback.connect(delay);
+  delay.connect(delayMix);
+  delayMix.connect(gain);
+  gain.connect(panner);
+  panner.connect(destination);
+  if (reverb) {
+    panner.connect(reverbSend);
+    reverbSend.connect(reverb);
+  }
+
+  let compressing: boolean | null = null;
+  function routeFilter(compress: boolean) {
+    if (compress === compressing) return;
+    compressing = compress;
+    filter.disconnect();
+    filter.connect(compress ? compressor : gain);
+    filter.connect(delay);
+  }
+
+  function setEffects(effects: TrackEffects, bpm: number, smoothing?: number) {
+    const set = (param: AudioParam, value: number) => {
+      if (smoothing === undefined) param.value = value;
+      else param.setTargetAtTime(value, ctx.currentTime, smoothing);
+    };
+
+    set(eqLow.gain, effects.eqLow);
+    set(eqMid.gain, effects.eqMid);
+    set(eqHigh.gain, effects.eqHigh);
+
+    // Off is a low-pass at Nyquist, which browsers treat as a straight pass-through.
+    // A new filter type jumps to its cutoff - gliding from the old one would sweep through silence.
+    const filterType = effects.filter === "highpass" ? "highpass" : "lowpass";
+    const cutoff = effects.filter === "off" ? ctx.sampleRate / 2 : effects.filterFrequency;
+    if (filter.type !== filterType) {
+      filter.type = filterType;
+      filter.frequency.cancelScheduledValues(ctx.currentTime);
+      filter.frequency.value = cutoff;
+    } else {
+      set(filter.frequency, cutoff);
+    }
+
+    const { threshold, ratio } = getCompressorSettings(effects.compression);
+    set(compressor.threshold, threshold);
+    set(compressor.ratio, ratio);
+    routeFilter(effects.compression > 0);
+
+    set(delay.delayTime, getDelaySeconds(effects, bpm));
+    set(delayFeedback.gain, effects.delayFeedback);
+    set(delayMix.gain, effects.delayMix);
+    set(reverbSend.gain, effects.reverbSend);
+  }
+
+  setEffects(settings.effects ?? DEFAULT_TRACK_EFFECTS, settings.bpm ?? FALLBACK_BPM);
+
+  return {
+    input: normalization,
+    normalization,
+    gain,
+    panner,
+    setEffects,
+    disconnect: () => {
+      for (const node of [normalization, eqLow, eqMid, eqHigh, filter, compressor, delay, delayFeedback, delayMix, gain, panner, reverbSend]) {
+        node.disconnect();
+      }
+    },
+  };
+}
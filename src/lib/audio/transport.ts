@@ -0,0 +1,125 @@
+// Shared clock for live playback. Every source is scheduled against one
+// AudioContext.currentTime anchor, so tracks start on the same sample and sources
+// started later (tempo changes, A/B swaps, undone removals) join in phase.
+// Musical position is counted in quarter-note beats, like BPM.
+import type { LoopRegion } from "@/lib/audio/loop-points";
+import { secondsPerBeat, type TimeSignature } from "@/lib/timing";
+
+// Scheduling headroom: every start() call lands before the anchor time passes
+export const START_LEAD_SECONDS = 0.1;
+// How far ahead a source joining a running groove is scheduled
+const JOIN_LEAD_SECONDS = 0.03;
+
+// Clip-launcher style: what a new or unmuted track waits for before it comes in
+export type LaunchQuantize = "bar" | "beat" | "off";
+export const DEFAULT_LAUNCH_QUANTIZE: LaunchQuantize = "bar";
+
+export interface TransportClock {
+  anchorTime: number; // context time of anchorBeat
+  anchorBeat: number;
+  bpm: number;
+}
+
+export interface BarPosition {
+  bar: number; // 1-based
+  beat: number; // 1-based pulse of the meter
+  progress: number; // 0..1 through the current pulse
+}
+
+export function beatsAt(clock: TransportClock, time: number): number {
+  return clock.anchorBeat + (time - clock.anchorTime) / secondsPerBeat(clock.bpm);
+}
+
+export function timeAtBeat(clock: TransportClock, beat: number): number {
+  return clock.anchorTime + (beat - clock.anchorBeat) * secondsPerBeat(clock.bpm);
+}
+
+// First bar line or pulse at or after `beats`, in quarter-note beats
+export function nextBoundaryBeat(beats: number, quantize: LaunchQuantize, timeSignature: TimeSignature): number {
+  if (quantize === "off") return beats;
+  const pulse = 4 / timeSignature.noteValue;
+  const unit = quantize === "bar" ? pulse * timeSignature.beats : pulse;
+  // Tolerance so a position sitting exactly on a boundary launches there, not a whole unit later
+  return Math.ceil(beats / unit - 1e-6) * unit;
+}
+
+// Re-anchors at `time` so the musical position carries on smoothly at the new tempo
+export function retempoClock(clock: TransportClock, time: number, bpm: number): TransportClock {
+  return { anchorTime: time, anchorBeat: beatsAt(clock, time), bpm };
+}
+
+// Where inside its loop a source starting at `time` has to begin to stay in phase
+export function getLoopOffset(
+  clock: TransportClock,
+  time: number,
+  loop: Pick<LoopRegion, "start" | "end">,
+  playbackRate: number
+): number {
+  const length = loop.end - loop.start;
+  if (length <= 0) return loop.start;
+  // Session seconds since beat 0, converted to seconds of (possibly varispeed) buffer
+  const elapsed = Math.max(0, beatsAt(clock, time)) * secondsPerBeat(clock.bpm) * playbackRate;
+  return loop.start + (elapsed % length);
+}
+
+export function getBarPosition(beats: number, timeSignature: TimeSignature): BarPosition {
+  const pulses = Math.max(0, beats) * (timeSignature.noteValue / 4);
+  const bar = Math.floor(pulses / timeSignature.beats);
+  const pulseInBar = pulses - bar * timeSignature.beats;
+  return { bar: bar + 1, beat: Math.floor(pulseInBar) + 1, progress: pulseInBar % 1 };
+}
+
+export function formatBarPosition({ bar, beat }: BarPosition): string {
+  return `${bar}.${beat}`;
+}
+
+export interface Transport {
+  // Beat 0 lands after `leadBeats` (a count-in); returns the context time of beat 0
+  start: (bpm: number, leadBeats?: number) => number;
+  stop: () => void;
+  setTempo: (bpm: number) => void;
+  isRunning: () => boolean;
+  getClock: () => TransportClock | null;
+  getBeats: () => number | null; // current position, negative during the lead-in and count-in
+  // Context time of the next launch point; as soon as possible when quantize is off or stopped
+  getLaunchTime: (quantize: LaunchQuantize, timeSignature: TimeSignature) => number;
+  schedule: (
+    source: AudioBufferSourceNode,
+    loop: Pick<LoopRegion, "start" | "end">,
+    playbackRate: number,
+    at?: number
+  ) => number;
+}
+
+export function createTransport(ctx: BaseAudioContext): Transport {
+  let clock: TransportClock | null = null;
+
+  return {
+    start: (bpm, leadBeats = 0) => {
+      clock = { anchorTime: ctx.currentTime + START_LEAD_SECONDS + leadBeats * secondsPerBeat(bpm), anchorBeat: 0, bpm };
+      return clock.anchorTime;
+    },
+    stop: () => {
+      clock = null;
+    },
+    setTempo: (bpm) => {
+      if (clock && clock.bpm !== bpm) clock = retempoClock(clock, Math.max(ctx.currentTime, clock.anchorTime), bpm);
+    },
+    isRunning: () => clock !== null,
+    getClock: () => clock,
+    getBeats: () => (clock ? beatsAt(clock, ctx.currentTime) : null),
+    getLaunchTime: (quantize, timeSignature) => {
+      const earliest = ctx.currentTime + JOIN_LEAD_SECONDS;
+      if (!clock) return earliest;
+      const time = Math.max(clock.anchorTime, earliest);
+      return timeAtBeat(clock, nextBoundaryBeat(beatsAt(clock, time), quantize, timeSignature));
+    },
+    // Starts a looping source in phase with the groove (at `at` if given); returns its start time
+    schedule: (source, loop, playbackRate, at) => {
+      if (!clock) throw new Error("Transport is not running");
+      const when = Math.max(clock.anchorTime, ctx.currentTime + JOIN_LEAD_SECONDS, at ?? 0);
+      source.start(when, getLoopOffset(clock, when, loop, playbackRate));
+      return when;
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav } from "@/lib/audio/wav";
+
+// Stereo, three frames: silence, half scale, full scale - and an out-of-range sample that must clip
+const left = new Float32Array([0, 0.5, 1.5]);
+const right = new Float32Array([0, -0.5, -1]);
+
+function bytes(buffer: ArrayBuffer, from: number, to?: number): number[] {
+  return Array.from(new Uint8Array(buffer.slice(from, to)));
+}
+
+function ascii(buffer: ArrayBuffer, from: number, length: number): string {
+  return String.fromCharCode(...bytes(buffer, from, from + length));
+}
+
+describe("encodeWav", () => {
+  it.each([
+    [16, 2],
+    [24, 3],
+  ] as const)("writes a %i-bit PCM header", (bitDepth, bytesPerSample) => {
+    const wav = encodeWav([left, right], 48000, bitDepth);
+    const view = new DataView(wav);
+    const dataSize = 3 * 2 * bytesPerSample;
+
+    expect(wav.byteLength).toBe(44 + dataSize);
+    expect(ascii(wav, 0, 4)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(36 + dataSize);
+    expect(ascii(wav, 8, 8)).toBe("WAVEfmt ");
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 2 * bytesPerSample);
+    expect(view.getUint16(32, true)).toBe(2 * bytesPerSample);
+    expect(view.getUint16(34, true)).toBe(bitDepth);
+    expect(ascii(wav, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(dataSize);
+  });
+
+  it("matches the 16-bit reference samples", () => {
+    // Interleaved L/R, little-endian: 0, 0 | 16383, -16384 | 32767 (clipped), -32768
+    expect(bytes(encodeWav([left, right], 44100, 16), 44)).toEqual([
+      0x00, 0x00, 0x00, 0x00,
+      0xff, 0x3f, 0x00, 0xc0,
+      0xff, 0x7f, 0x00, 0x80,
+    ]);
+  });
+
+  it("matches the 24-bit reference samples", () => {
+    // 0, 0 | 4194304, -4194304 | 8388607 (clipped), -8388608
+    expect(bytes(encodeWav([left, right], 44100, 24), 44)).toEqual([
+      0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+      0x00, 0x00, 0x40, 0x00, 0x00, 0xc0,
+      0xff, 0xff, 0x7f, 0x00, 0x00, 0x80,
+    ]);
+  });
+
+  it("produces identical bytes for identical input", () => {
+    const noise = new Float32Array(512).map((_, i) => Math.sin(i * 0.37) * 0.8);
+    expect(bytes(encodeWav([noise, noise], 44100, 24), 0)).toEqual(bytes(encodeWav([noise, noise], 44100, 24), 0));
+  });
+
+  it("writes an empty data chunk when there are no frames", () => {
+    const wav = encodeWav([new Float32Array(0)], 44100);
+    expect(wav.byteLength).toBe(44);
+    expect(new DataView(wav).getUint32(40, true)).toBe(0);
+  });
+});
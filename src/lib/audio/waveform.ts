@@ -0,0 +1,82 @@
+// Geometry for the per-track waveform editor: peak columns for drawing, the beat grid
+// and moving the loop handles along it.
+import { secondsPerPulse, type TimeSignature } from "@/lib/timing";
+
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface LoopEdges {
+  start: number; // seconds
+  end: number;
+}
+
+export interface GridLine {
+  time: number; // seconds into the audio
+  bar: boolean; // first pulse of a bar
+}
+
+// Smallest loop the handles allow, in pulses of the meter
+export const MIN_LOOP_PULSES = 1;
+
+// Min/max of the mono mix per column - enough to draw a filled waveform at any width
+export function computePeaks(channels: Float32Array[], columns: number): WaveformPeaks {
+  const length = channels[0]?.length ?? 0;
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  if (length === 0 || columns <= 0) return { min, max };
+
+  const perColumn = length / columns;
+  for (let column = 0; column < columns; column++) {
+    const from = Math.floor(column * perColumn);
+    const to = Math.max(from + 1, Math.floor((column + 1) * perColumn));
+    let low = 0;
+    let high = 0;
+    for (let i = from; i < to && i < length; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length;
+      if (sample < low) low = sample;
+      if (sample > high) high = sample;
+    }
+    min[column] = low;
+    max[column] = high;
+  }
+  return { min, max };
+}
+
+// Pulse lines across the whole file, counted from `origin` (the loop start, which plays as bar 1)
+export function getGridLines(origin: number, duration: number, bpm: number, timeSignature: TimeSignature): GridLine[] {
+  const pulse = secondsPerPulse(bpm, timeSignature);
+  const lines: GridLine[] = [];
+  for (let index = Math.ceil(-origin / pulse); origin + index * pulse <= duration; index++) {
+    const inBar = ((index % timeSignature.beats) + timeSignature.beats) % timeSignature.beats;
+    lines.push({ time: origin + index * pulse, bar: inBar === 0 });
+  }
+  return lines;
+}
+
+// Moves one edge of the loop in whole pulses, counted from the loop start so the loop
+// stays on the grid it plays on. The region never leaves the audio or gets shorter than MIN_LOOP_PULSES.
+export function moveLoopEdge(
+  region: LoopEdges,
+  edge: keyof LoopEdges,
+  time: number,
+  duration: number,
+  bpm: number,
+  timeSignature: TimeSignature
+): LoopEdges {
+  const pulse = secondsPerPulse(bpm, timeSignature);
+  const steps = Math.round((time - region.start) / pulse);
+  const epsilon = 1e-6;
+
+  if (edge === "start") {
+    const earliest = Math.ceil(-region.start / pulse - epsilon);
+    const latest = Math.floor((region.end - region.start) / pulse + epsilon) - MIN_LOOP_PULSES;
+    return { start: region.start + Math.min(latest, Math.max(earliest, steps)) * pulse, end: region.end };
+  }
+
+  const longest = Math.floor((duration - region.start) / pulse + epsilon);
+  return { start: region.start, end: region.start + Math.max(MIN_LOOP_PULSES, Math.min(longest, steps)) * pulse };
+}
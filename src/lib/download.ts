@@ -0,0 +1,20 @@
+// Trigger a browser download for generated files (exports, project files)
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before freeing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// "Funky Bass Guitar" -> "funky-bass-guitar"
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9а-яё]+/gi, "-")
+    .replace(/^-+|-+$/g, "") || "track";
+}
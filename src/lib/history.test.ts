@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  getRedoEntry,
+  getUndoEntry,
+  markUndone,
+  pushEntry,
+  retireTakeActions,
+  type HistoryAction,
+  type HistoryLog,
+} from "@/lib/history";
+
+const take = (trackId: number, from: number, to: number): HistoryAction => ({
+  type: "take",
+  trackId,
+  name: `Track ${trackId}`,
+  from,
+  to,
+  label: "B",
+});
+
+function log(...actions: HistoryAction[]): HistoryLog {
+  return actions.reduce((history, action, i) => pushEntry(history, createHistoryEntry(action, i * 10_000)), EMPTY_HISTORY);
+}
+
+describe("retireTakeActions", () => {
+  it("turns the track's take switches into notes so undo skips them", () => {
+    const history = retireTakeActions(log({ type: "master", from: 1, to: 0.5 }, take(1, 1, 2), take(2, 3, 4), take(1, 2, 5)), 1);
+
+    expect(history.past.map((entry) => entry.action.type)).toEqual(["master", "note", "take", "note"]);
+    expect(history.past[3].action).toEqual({ type: "note", message: "🔀 Track 1: switched to take B" });
+    expect(getUndoEntry(history)?.action).toEqual(take(2, 3, 4));
+  });
+
+  it("drops pending redos of the track's take switches", () => {
+    let history = log(take(2, 3, 4), take(1, 1, 2));
+    history = markUndone(history, getUndoEntry(history)!.id);
+    history = markUndone(history, getUndoEntry(history)!.id);
+
+    history = retireTakeActions(history, 1);
+    expect(history.future.map((entry) => entry.action)).toEqual([take(2, 3, 4)]);
+    expect(getRedoEntry(history)?.action).toEqual(take(2, 3, 4));
+  });
+});
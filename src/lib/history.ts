@@ -0,0 +1,195 @@
+// Typed action log behind the History card and undo/redo.
+// Actions store both the old and the new value so they can be applied in either direction.
+import type { Track } from "@/lib/track";
+import type { StretchMode } from "@/lib/audio/time-stretch";
+import type { EffectParam, TrackEffects } from "@/lib/audio/effects";
+import { formatTimeSignature, type TimeSignature } from "@/lib/timing";
+
+export type MixerParam = "volume" | "pan" | "solo";
+
+export type HistoryAction =
+  | { type: "add"; track: Track; index: number }
+  | { type: "remove"; track: Track; index: number }
+  | { type: "mute"; trackId: number; name: string; from: boolean; to: boolean }
+  | { type: "mixer"; trackId: number; name: string; param: MixerParam; from: number | boolean; to: number | boolean }
+  | { type: "effects"; trackId: number; name: string; param: EffectParam; from: TrackEffects; to: TrackEffects }
+  | { type: "master"; from: number; to: number }
+  | { type: "bpm"; from: number; to: number; stretchMode?: StretchMode }
+  | { type: "timeSignature"; from: TimeSignature; to: TimeSignature }
+  | { type: "take"; trackId: number; name: string; from: number; to: number; label: string; regenerated?: boolean }
+  // Informational entries (exports, errors, voice feedback) - shown but never undone
+  | { type: "note"; message: string };
+
+export interface HistoryEntry {
+  id: number;
+  at: number;
+  action: HistoryAction;
+}
+
+export interface HistoryLog {
+  past: HistoryEntry[];
+  future: HistoryEntry[]; // undone entries, most recently undone last
+}
+
+export const EMPTY_HISTORY: HistoryLog = { past: [], future: [] };
+
+export const MAX_HISTORY_ENTRIES = 100;
+// Slider drags on the same control within this window collapse into one undo step
+const COALESCE_MS = 1000;
+
+let nextEntryId = 1;
+
+export function createHistoryEntry(action: HistoryAction, at: number = Date.now()): HistoryEntry {
+  return { id: nextEntryId++, at, action };
+}
+
+export function isUndoable(action: HistoryAction): boolean {
+  return action.type !== "note";
+}
+
+function formatPan(pan: number): string {
+  return pan === 0 ? "C" : `${pan < 0 ? "L" : "R"}${Math.round(Math.abs(pan) * 100)}`;
+}
+
+const EFFECT_LABELS: Record<EffectParam, string> = {
+  eqLow: "EQ low",
+  eqMid: "EQ mid",
+  eqHigh: "EQ high",
+  filter: "filter",
+  filterFrequency: "filter cutoff",
+  compression: "compression",
+  delayMix: "delay",
+  delayBeats: "delay time",
+  delayFeedback: "delay feedback",
+  reverbSend: "reverb send",
+};
+
+function formatEffect(param: EffectParam, effects: TrackEffects): string {
+  const value = effects[param];
+  if (typeof value === "string") return value;
+  if (param === "eqLow" || param === "eqMid" || param === "eqHigh") return `${value > 0 ? "+" : ""}${value} dB`;
+  if (param === "filterFrequency") return `${Math.round(value)} Hz`;
+  if (param === "delayBeats") return `${value} beat`;
+  return `${Math.round(value * 100)}%`;
+}
+
+export function describeAction(action: HistoryAction): string {
+  switch (action.type) {
+    case "add":
+      return `✅ ${action.track.name} added successfully`;
+    case "remove":
+      return `🗑️ Removed ${action.track.name}`;
+    case "mute":
+      return action.to ? `🔇 Muted ${action.name}` : `🔊 Unmuted ${action.name}`;
+    case "mixer":
+      if (action.param === "solo") return action.to ? `🎧 Soloed ${action.name}` : `🎧 Unsoloed ${action.name}`;
+      if (action.param === "pan") return `🎚️ ${action.name} pan ${formatPan(action.to as number)}`;
+      return `🎚️ ${action.name} volume ${Math.round((action.to as number) * 100)}%`;
+    case "effects":
+      return `🎛️ ${action.name} ${EFFECT_LABELS[action.param]} ${formatEffect(action.param, action.to)}`;
+    case "master":
+      return `🎚️ Master volume ${Math.round(action.to * 100)}%`;
+    case "bpm":
+      return action.stretchMode
+        ? `🎵 Changed tempo to ${action.to} BPM (${action.stretchMode === "quality" ? "time-stretched" : "varispeed"})`
+        : `🎵 Set tempo to ${action.to} BPM`;
+    case "timeSignature":
+      return `🎼 Set time signature to ${formatTimeSignature(action.to)}`;
+    case "take":
+      return action.regenerated
+        ? `🔁 ${action.name}: take ${action.label} ready`
+        : `🔀 ${action.name}: switched to take ${action.label}`;
+    case "note":
+      return action.message;
+  }
+}
+
+function trimPast(past: HistoryEntry[]): HistoryEntry[] {
+  return past.length > MAX_HISTORY_ENTRIES ? past.slice(past.length - MAX_HISTORY_ENTRIES) : past;
+}
+
+function canCoalesce(previous: HistoryEntry | undefined, entry: HistoryEntry): boolean {
+  if (!previous || entry.at - previous.at > COALESCE_MS) return false;
+  const a = previous.action;
+  const b = entry.action;
+  if (a.type === "master" && b.type === "master") return true;
+  if (a.type === "effects" && b.type === "effects") return a.trackId === b.trackId && a.param === b.param;
+  return a.type === "mixer" && b.type === "mixer" && a.param !== "solo" && a.trackId === b.trackId && a.param === b.param;
+}
+
+// Appends an entry. A new undoable action discards the redo stack.
+export function pushEntry(log: HistoryLog, entry: HistoryEntry): HistoryLog {
+  if (!isUndoable(entry.action)) {
+    return { past: trimPast([...log.past, entry]), future: log.future };
+  }
+
+  const previous = log.past[log.past.length - 1];
+  if (canCoalesce(previous, entry)) {
+    const merged = { ...entry, id: previous.id, action: { ...entry.action, from: (previous.action as { from: number }).from } };
+    return { past: [...log.past.slice(0, -1), merged as HistoryEntry], future: [] };
+  }
+  return { past: trimPast([...log.past, entry]), future: [] };
+}
+
+// Swaps a placeholder (e.g. "Adding drums...") for its outcome once an async action settles
+export function replaceEntry(log: HistoryLog, id: number, action: HistoryAction): HistoryLog {
+  const past = log.past.map((entry) => (entry.id === id ? { ...entry, action } : entry));
+  return { past, future: isUndoable(action) ? [] : log.future };
+}
+
+export function getUndoEntry(log: HistoryLog): HistoryEntry | undefined {
+  return [...log.past].reverse().find((entry) => isUndoable(entry.action));
+}
+
+export function getRedoEntry(log: HistoryLog): HistoryEntry | undefined {
+  return log.future[log.future.length - 1];
+}
+
+// Moves an entry to the redo stack; `action` can carry a fresher snapshot taken while undoing
+export function markUndone(log: HistoryLog, id: number, action?: HistoryAction): HistoryLog {
+  const entry = log.past.find((e) => e.id === id);
+  if (!entry) return log;
+  return {
+    past: log.past.filter((e) => e.id !== id),
+    future: [...log.future, { ...entry, action: action ?? entry.action }],
+  };
+}
+
+export function markRedone(log: HistoryLog, id: number, action?: HistoryAction): HistoryLog {
+  const entry = log.future.find((e) => e.id === id);
+  if (!entry) return log;
+  return {
+    past: trimPast([...log.past, { ...entry, action: action ?? entry.action }]),
+    future: log.future.filter((e) => e.id !== id),
+  };
+}
+
+// Keeping one take deletes the others, so switching between them can't be undone or redone any more.
+// Past switches stay in the card as notes; pending redos of them are dropped.
+export function retireTakeActions(log: HistoryLog, trackId: number): HistoryLog {
+  const isTrackTake = (entry: HistoryEntry) => entry.action.type === "take" && entry.action.trackId === trackId;
+  return {
+    past: log.past.map((entry) =>
+      isTrackTake(entry) ? { ...entry, action: { type: "note", message: describeAction(entry.action) } } : entry
+    ),
+    future: log.future.filter((entry) => !isTrackTake(entry)),
+  };
+}
+
+// Tracks that only exist inside the log: removed ones undo can bring back, and undone adds redo can.
+// Their audio must stay alive until they fall out of the log.
+export function getDetachedTracks(log: HistoryLog): Track[] {
+  return [
+    ...log.past.flatMap((entry) => (entry.action.type === "remove" ? [entry.action.track] : [])),
+    ...log.future.flatMap((entry) => (entry.action.type === "add" ? [entry.action.track] : [])),
+  ];
+}
+
+// Project files keep history as plain messages - tracks inside actions reference blob URLs
+export function historyToMessages(log: HistoryLog): string[] {
+  return log.past.map((entry) => describeAction(entry.action));
+}
+
+export function historyFromMessages(messages: string[]): HistoryLog {
+  return { past: messages.map((message) => createHistoryEntry({ type: "note", message }, 0)), future: [] };
+}
@@ -0,0 +1,25 @@
+// Instrument families drive prompt wording and the mock provider's synthesis
+export type InstrumentFamily = "percussion" | "bass" | "harmonic" | "lead";
+
+export interface InstrumentDef {
+  name: string;
+  emoji: string;
+  family: InstrumentFamily;
+}
+
+export const instrumentDefs: InstrumentDef[] = [
+  { name: "Piano", emoji: "🎹", family: "harmonic" },
+  { name: "Saxophone", emoji: "🎷", family: "lead" },
+  { name: "Electric Guitar", emoji: "🎸", family: "harmonic" },
+  { name: "Bass Guitar", emoji: "🎸", family: "bass" },
+  { name: "Electric Bass", emoji: "🎸", family: "bass" },
+  { name: "Drum Set", emoji: "🥁", family: "percussion" },
+  { name: "Maracas", emoji: "🪇", family: "percussion" },
+  { name: "Trumpet", emoji: "🎺", family: "lead" },
+];
+
+export const availableInstruments = instrumentDefs.map((i) => i.name);
+
+export function getInstrumentFamily(name: string): InstrumentFamily {
+  return instrumentDefs.find((i) => i.name === name)?.family ?? "harmonic";
+}
@@ -0,0 +1,44 @@
+// Mixer rules shared by the Web Audio graph and the HTML5 fallback
+import type { Track } from "@/lib/track";
+import { getNormalizationGain } from "@/lib/audio/loudness";
+import { DEFAULT_TRACK_EFFECTS, type TrackEffects } from "@/lib/audio/effects";
+
+export const DEFAULT_VOLUME = 1;
+export const DEFAULT_PAN = 0;
+export const DEFAULT_MASTER_VOLUME = 0.8;
+
+// Short time constant for gain/pan changes so faders don't zipper or click
+export const PARAM_SMOOTHING = 0.015;
+
+export function getTrackVolume(track: Track): number {
+  return track.volume ?? DEFAULT_VOLUME;
+}
+
+export function getTrackPan(track: Track): number {
+  return track.pan ?? DEFAULT_PAN;
+}
+
+export function getTrackEffects(track: Track): TrackEffects {
+  return { ...DEFAULT_TRACK_EFFECTS, ...track.effects };
+}
+
+// Solo overrides mute: while any track is soloed, exactly the soloed tracks are
+// heard (even if muted); otherwise every unmuted track is heard.
+export function isTrackAudible(track: Track, tracks: Track[]): boolean {
+  const anySolo = tracks.some((t) => t.solo);
+  if (anySolo) return !!track.solo;
+  return !track.muted;
+}
+
+// Loudness-matching gain in front of the fader; unity until the audio has been measured
+export function getTrackNormalization(track: Track): number {
+  return track.loudness ? getNormalizationGain(track.loudness) : 1;
+}
+
+export function getEffectiveGain(track: Track, tracks: Track[]): number {
+  return isTrackAudible(track, tracks) ? getTrackVolume(track) : 0;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,50 @@
+// Browser side of POST /api/generate - the only way the client reaches music generation
+import type { GenerateErrorBody, GenerateErrorCode, GenerateRequest } from "@/lib/music/request";
+import { METADATA_HEADER, decodeMetadataHeader, type ComposeMetadata } from "@/lib/music/provider";
+
+export class GenerateError extends Error {
+  constructor(
+    public readonly code: GenerateErrorCode,
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "GenerateError";
+  }
+}
+
+async function readError(response: Response): Promise<GenerateError> {
+  try {
+    const body = (await response.json()) as GenerateErrorBody;
+    if (body?.error?.code) {
+      return new GenerateError(body.error.code, body.error.message, response.status);
+    }
+  } catch {
+    // Not our JSON error shape - fall through
+  }
+  // Without a code, only the status says whether trying again can help
+  const code: GenerateErrorCode =
+    response.status === 429 ? "rate_limited" : response.status >= 500 ? "internal_error" : "invalid_request";
+  return new GenerateError(code, `Generation failed with status ${response.status}`, response.status);
+}
+
+export interface GeneratedAudio {
+  blob: Blob;
+  metadata: ComposeMetadata | null;
+}
+
+export async function requestGeneration(request: GenerateRequest, signal?: AbortSignal): Promise<GeneratedAudio> {
+  const response = await fetch("/api/generate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  const metadata = decodeMetadataHeader(response.headers.get(METADATA_HEADER));
+  return { blob: await response.blob(), metadata };
+}
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createElevenLabsProvider } from "@/lib/music/elevenlabs-provider";
+import type { GenerateRequest } from "@/lib/music/request";
+
+const request: GenerateRequest = {
+  instrument: "Drum Set",
+  bpm: 120,
+  durationMs: 10000,
+  timeSignature: { beats: 4, noteValue: 4 },
+  existingInstruments: [],
+};
+
+describe("ElevenLabs provider errors", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    [401, "upstream_rejected", 502],
+    [403, "upstream_rejected", 502],
+    [400, "upstream_rejected", 502],
+    [422, "upstream_rejected", 502],
+    [429, "rate_limited", 429],
+    [500, "upstream_error", 502],
+    [503, "upstream_error", 502],
+  ])("maps an upstream %i to %s", async (upstreamStatus, code, status) => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("nope", { status: upstreamStatus })));
+    await expect(createElevenLabsProvider("key").compose(request)).rejects.toMatchObject({ code, status });
+  });
+
+  it("treats an unreachable service as a transient upstream error", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+    await expect(createElevenLabsProvider("key").compose(request)).rejects.toMatchObject({ code: "upstream_error" });
+  });
+});
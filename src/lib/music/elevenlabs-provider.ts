@@ -0,0 +1,68 @@
+import { ProviderError, type MusicProvider } from "@/lib/music/provider";
+import { buildPrompt } from "@/lib/music/prompt-builder";
+
+const ELEVEN_COMPOSE_URL = "https://api.elevenlabs.io/v1/music/compose";
+const ELEVEN_MODEL_ID = "music_v1";
+
+export function createElevenLabsProvider(apiKey: string): MusicProvider {
+  return {
+    id: "elevenlabs",
+
+    async compose(request, signal) {
+      const prompt = buildPrompt(request);
+      const requestBody = {
+        prompt,
+        music_length_ms: request.durationMs,
+        model_id: ELEVEN_MODEL_ID,
+        output_format: "mp3_44100_128",
+      };
+
+      console.log(`🎵 ElevenLabs request for SOLO ${request.instrument} at ${request.bpm} BPM (${request.durationMs}ms)`);
+
+      let upstream: Response;
+      try {
+        upstream = await fetch(ELEVEN_COMPOSE_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "xi-api-key": apiKey,
+          },
+          body: JSON.stringify(requestBody),
+          signal,
+        });
+      } catch (err) {
+        console.error("❌ ElevenLabs request failed:", err);
+        throw new ProviderError("upstream_error", "Could not reach the music generation service", 502);
+      }
+
+      if (!upstream.ok) {
+        const errorText = await upstream.text();
+        console.error("API Error:", upstream.status, errorText);
+        if (upstream.status === 429) {
+          throw new ProviderError("rate_limited", "Music generation is rate limited, try again shortly", 429);
+        }
+        // 401/403 (bad key), 400/422 (rejected input) and the like fail the same way every time
+        if (upstream.status >= 400 && upstream.status < 500) {
+          throw new ProviderError("upstream_rejected", `Music generation service rejected the request (${upstream.status})`, 502);
+        }
+        throw new ProviderError("upstream_error", `Music generation service returned ${upstream.status}`, 502);
+      }
+
+      if (!upstream.body) {
+        throw new ProviderError("upstream_error", "Music generation service returned no audio", 502);
+      }
+
+      return {
+        audio: upstream.body,
+        mimeType: upstream.headers.get("content-type") ?? "audio/mpeg",
+        metadata: {
+          provider: "elevenlabs",
+          model: ELEVEN_MODEL_ID,
+          prompt,
+          bpm: request.bpm,
+          durationMs: request.durationMs,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,235 @@
+// Offline provider: synthesizes a deterministic, tempo-correct test loop per instrument.
+// Same request in -> byte-identical WAV out, so it is safe to use for development and tests.
+import type { GenerateRequest } from "@/lib/music/request";
+import type { MusicProvider } from "@/lib/music/provider";
+import { encodeWav } from "@/lib/audio/wav";
+import { formatTimeSignature, secondsPerBar, secondsPerPulse, type TimeSignature } from "@/lib/timing";
+
+const SAMPLE_RATE = 44100;
+
+type Voice = "drums" | "shaker" | "bass" | "keys" | "guitar" | "lead";
+
+const VOICE_BY_INSTRUMENT: Record<string, Voice> = {
+  "Drum Set": "drums",
+  Maracas: "shaker",
+  "Bass Guitar": "bass",
+  "Electric Bass": "bass",
+  Piano: "keys",
+  "Electric Guitar": "guitar",
+  Saxophone: "lead",
+  Trumpet: "lead",
+};
+
+// Minor pentatonic and a i-VI-III-VII progression, in semitones from the root
+const PENTATONIC = [0, 3, 5, 7, 10];
+const PROGRESSION = [
+  { root: 0, third: 3 },
+  { root: 8, third: 4 },
+  { root: 3, third: 4 },
+  { root: 10, third: 4 },
+];
+
+// mulberry32 - tiny seeded PRNG so loops are reproducible
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function midiToFreq(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+type Waveform = "sine" | "square" | "saw";
+
+function oscillator(wave: Waveform, phase: number): number {
+  const p = phase - Math.floor(phase);
+  switch (wave) {
+    case "square":
+      return p < 0.5 ? 1 : -1;
+    case "saw":
+      return 2 * p - 1;
+    default:
+      return Math.sin(2 * Math.PI * p);
+  }
+}
+
+// Events that run past the end wrap to the start, so the loop seam stays continuous
+function addTone(
+  out: Float32Array,
+  startSec: number,
+  durationSec: number,
+  freq: number,
+  wave: Waveform,
+  amp: number,
+  decay: number
+): void {
+  const start = Math.round(startSec * SAMPLE_RATE);
+  const length = Math.round(durationSec * SAMPLE_RATE);
+  const attack = Math.min(length, Math.round(0.005 * SAMPLE_RATE));
+  for (let i = 0; i < length; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.min(1, i / Math.max(1, attack)) * Math.exp(-t * decay) * Math.min(1, (length - i) / attack);
+    out[(start + i) % out.length] += amp * envelope * oscillator(wave, freq * t);
+  }
+}
+
+function addNoise(
+  out: Float32Array,
+  startSec: number,
+  durationSec: number,
+  amp: number,
+  decay: number,
+  rng: () => number,
+  bright: boolean
+): void {
+  const start = Math.round(startSec * SAMPLE_RATE);
+  const length = Math.round(durationSec * SAMPLE_RATE);
+  let previous = 0;
+  for (let i = 0; i < length; i++) {
+    const white = rng() * 2 - 1;
+    // First-order difference acts as a cheap high-pass for hats and shakers
+    const sample = bright ? white - previous : white;
+    previous = white;
+    out[(start + i) % out.length] += amp * Math.exp(-(i / SAMPLE_RATE) * decay) * sample;
+  }
+}
+
+function addKick(out: Float32Array, startSec: number, amp: number): void {
+  const start = Math.round(startSec * SAMPLE_RATE);
+  const length = Math.round(0.25 * SAMPLE_RATE);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / SAMPLE_RATE;
+    const freq = 50 + 100 * Math.exp(-t * 30);
+    phase += freq / SAMPLE_RATE;
+    out[(start + i) % out.length] += amp * Math.exp(-t * 12) * Math.sin(2 * Math.PI * phase);
+  }
+}
+
+function renderVoice(
+  voice: Voice,
+  out: Float32Array,
+  bars: number,
+  bpm: number,
+  timeSignature: TimeSignature,
+  rng: () => number,
+  rootNote: number
+) {
+  const pulses = timeSignature.beats;
+  const pulse = secondsPerPulse(bpm, timeSignature);
+  const barLength = secondsPerBar(bpm, timeSignature);
+  // Downbeat plus a secondary accent roughly mid-bar (beat 3 in 4/4, the 4th eighth in 6/8)
+  const accents = [0, Math.ceil(pulses / 2)];
+
+  for (let bar = 0; bar < bars; bar++) {
+    const barStart = bar * barLength;
+    const chord = PROGRESSION[bar % PROGRESSION.length];
+    const isFillBar = bar % 4 === 3;
+
+    switch (voice) {
+      case "drums":
+        for (let p = 0; p < pulses; p++) {
+          const t = barStart + p * pulse;
+          if (accents.includes(p)) addKick(out, t, 0.9);
+          else if (accents.includes(p + 1) || p === pulses - 1) addNoise(out, t, 0.18, 0.5, 18, rng, false);
+          addNoise(out, t, 0.05, 0.25, 60, rng, true);
+          if (timeSignature.noteValue === 4) addNoise(out, t + pulse / 2, 0.05, 0.18, 60, rng, true);
+        }
+        if (isFillBar) {
+          addKick(out, barStart + (pulses - 0.5) * pulse, 0.7);
+          addNoise(out, barStart + (pulses - 0.25) * pulse, 0.12, 0.4, 25, rng, false);
+        }
+        break;
+
+      case "shaker": {
+        const subdivisions = timeSignature.noteValue === 4 ? 4 : 2;
+        for (let s = 0; s < pulses * subdivisions; s++) {
+          const accent = s % subdivisions === subdivisions / 2 ? 0.4 : 0.2;
+          addNoise(out, barStart + (s * pulse) / subdivisions, 0.06, accent, 45, rng, true);
+        }
+        break;
+      }
+
+      case "bass":
+        for (let e = 0; e < pulses * 2; e++) {
+          const interval = e === pulses * 2 - 1 && isFillBar ? 7 : e % 4 === 3 ? 12 : 0;
+          const note = rootNote - 24 + chord.root + interval;
+          addTone(out, barStart + (e * pulse) / 2, pulse / 2, midiToFreq(note), "saw", 0.35, 3);
+        }
+        break;
+
+      case "keys":
+        for (let p = 0; p < pulses; p++) {
+          for (const interval of [0, chord.third, 7]) {
+            addTone(out, barStart + p * pulse, pulse * 0.9, midiToFreq(rootNote + chord.root + interval), "sine", 0.18, 2.5);
+          }
+        }
+        break;
+
+      case "guitar":
+        for (let p = 0; p < pulses; p++) {
+          for (const interval of [0, 7, 12]) {
+            addTone(out, barStart + p * pulse + pulse / 2, pulse * 0.3, midiToFreq(rootNote - 12 + chord.root + interval), "square", 0.08, 8);
+          }
+        }
+        break;
+
+      case "lead":
+        for (let p = 0; p < pulses; p++) {
+          const degree = PENTATONIC[Math.floor(rng() * PENTATONIC.length)];
+          const octave = rng() < 0.25 ? 12 : 0;
+          addTone(out, barStart + p * pulse, pulse * 0.85, midiToFreq(rootNote + 12 + degree + octave), "saw", 0.15, 1.5);
+        }
+        break;
+    }
+  }
+}
+
+export const mockProvider: MusicProvider = {
+  id: "mock",
+
+  async compose(request: GenerateRequest) {
+    const voice = VOICE_BY_INSTRUMENT[request.instrument] ?? "keys";
+    const meter = formatTimeSignature(request.timeSignature);
+    const seed = hashString(`${request.instrument}|${request.style ?? ""}|${request.bpm}|${meter}`);
+    const rng = createRng(seed);
+
+    // Snap to whole bars so the loop is tempo-correct at the requested BPM
+    const barLength = secondsPerBar(request.bpm, request.timeSignature);
+    const bars = Math.max(1, Math.round(request.durationMs / 1000 / barLength));
+    const totalSamples = Math.round(bars * barLength * SAMPLE_RATE);
+
+    const out = new Float32Array(totalSamples);
+    const rootNote = 57 + PENTATONIC[Math.floor(rng() * PENTATONIC.length)]; // around A3
+    renderVoice(voice, out, bars, request.bpm, request.timeSignature, rng, rootNote);
+
+    console.log(`🧪 Mock provider rendered ${bars} bars of ${request.instrument} (${voice}) at ${request.bpm} BPM in ${meter}`);
+
+    return {
+      audio: encodeWav([out], SAMPLE_RATE),
+      mimeType: "audio/wav",
+      metadata: {
+        provider: "mock",
+        model: `mock-${voice}`,
+        prompt: `Mock ${voice} loop for ${request.style ? `${request.style} ` : ""}${request.instrument} at ${request.bpm} BPM in ${meter}, ${bars} bars`,
+        bpm: request.bpm,
+        durationMs: Math.round((totalSamples / SAMPLE_RATE) * 1000),
+      },
+    };
+  },
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { buildPrompt, type PromptContext } from "@/lib/music/prompt-builder";
+
+// Snapshots make every wording change show up as a reviewable diff
+const base: PromptContext = {
+  instrument: "Piano",
+  style: "funk",
+  bpm: 120,
+  timeSignature: { beats: 4, noteValue: 4 },
+  key: "A minor",
+  existingInstruments: [],
+};
+
+describe("buildPrompt", () => {
+  describe.each([
+    ["percussion", "Drum Set"],
+    ["bass", "Bass Guitar"],
+    ["harmonic", "Piano"],
+    ["lead", "Saxophone"],
+  ])("%s family (%s)", (_family, instrument) => {
+    it("prompts the first track", () => {
+      expect(buildPrompt({ ...base, instrument })).toMatchSnapshot();
+    });
+
+    it("prompts a track that complements existing ones", () => {
+      expect(buildPrompt({ ...base, instrument, existingInstruments: ["Drum Set", "Electric Bass"] })).toMatchSnapshot();
+    });
+  });
+
+  it.each([
+    ["3/4 in D major", { beats: 3, noteValue: 4 }, "D major"],
+    ["6/8 in E minor", { beats: 6, noteValue: 8 }, "E minor"],
+    ["7/8 in F# minor", { beats: 7, noteValue: 8 }, "F# minor"],
+  ])("prompts %s", (_label, timeSignature, key) => {
+    expect(buildPrompt({ ...base, instrument: "Trumpet", timeSignature, key })).toMatchSnapshot();
+  });
+
+  it("leaves out style, key and meter details it wasn't given", () => {
+    expect(buildPrompt({ instrument: "Electric Guitar", bpm: 90, existingInstruments: [] })).toMatchSnapshot();
+  });
+
+  it("never puts a key in a percussion prompt", () => {
+    expect(buildPrompt({ ...base, instrument: "Maracas" })).not.toContain("A minor");
+    expect(buildPrompt({ ...base, instrument: "Bass Guitar" })).toContain("in the key of A minor");
+  });
+
+  it("writes the tempo and meter into the opening", () => {
+    const prompt = buildPrompt({ ...base, bpm: 97, timeSignature: { beats: 12, noteValue: 8 } });
+    expect(prompt).toMatch(/^Generate a diverse 10 second SOLO funk piano loop at 97 BPM, 12\/8 time signature/);
+  });
+});
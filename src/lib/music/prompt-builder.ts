@@ -0,0 +1,103 @@
+// Prompt construction for text-to-music providers.
+// Wording that differs per instrument family lives in FAMILY_TEMPLATES; the
+// shared structure (isolation, loop seam, duration) lives in buildPrompt.
+import { getInstrumentFamily, type InstrumentFamily } from "@/lib/instruments";
+import { DEFAULT_TIME_SIGNATURE, formatTimeSignature, type TimeSignature } from "@/lib/timing";
+
+export interface PromptContext {
+  instrument: string;
+  style?: string;
+  bpm: number;
+  timeSignature?: TimeSignature;
+  key?: string;
+  existingInstruments: string[];
+}
+
+interface FamilyTemplate {
+  complexity: string;
+  avoid: string;
+  diversity: string;
+  variation: string;
+  // What the part does on its own vs. next to existing tracks
+  firstRole: string;
+  complementRole: string;
+  // Percussion has no pitch, so the key is left out of the prompt
+  usesKey: boolean;
+}
+
+const FAMILY_TEMPLATES: Record<InstrumentFamily, FamilyTemplate> = {
+  percussion: {
+    complexity:
+      "Use a minimum of 10 different drum sounds/percussion elements throughout the loop - include kick, snare, hi-hats (open/closed), crash cymbals, ride, toms (high/mid/low), floor tom, rim shots, and other percussion elements to create maximum rhythmic and timbral diversity.",
+    avoid: "drum hits",
+    diversity: "10+ different drum/percussion sounds",
+    variation: "rhythmic/timbral",
+    firstRole: "multiple musical phrases, dynamic changes, fills, and variations",
+    complementRole: "a pocket that locks with the existing parts, complementary fills, and accent variations",
+    usesKey: false,
+  },
+  bass: {
+    complexity:
+      "Use a minimum of 10 different notes/pitches throughout the loop - include roots, fifths, octaves, walking and passing tones, chromatic approach notes, ghost notes, and slides to create maximum melodic and rhythmic diversity.",
+    avoid: "notes",
+    diversity: "10+ different notes/pitches",
+    variation: "melodic/rhythmic",
+    firstRole: "a driving bass line with multiple phrases, syncopation, fills, and variations",
+    complementRole: "a bass line that locks with the existing rhythm, outlines the harmony, and adds complementary fills",
+    usesKey: true,
+  },
+  harmonic: {
+    complexity:
+      "Use a minimum of 10 different notes/pitches throughout the loop - include various octaves, chord tones, inversions, voicings, passing notes, arpeggios, and comping rhythms to create maximum harmonic and melodic diversity.",
+    avoid: "notes",
+    diversity: "10+ different notes/pitches",
+    variation: "melodic/harmonic",
+    firstRole: "multiple musical phrases, chord changes, dynamic changes, and variations",
+    complementRole: "comping that leaves space for the existing parts, harmonic variations, and complementary fills",
+    usesKey: true,
+  },
+  lead: {
+    complexity:
+      "Use a minimum of 10 different notes/pitches throughout the loop - include various octaves, melodic intervals, passing notes, chromatic runs, call-and-response motifs, and expressive phrasing to create maximum harmonic and melodic diversity.",
+    avoid: "notes",
+    diversity: "10+ different notes/pitches",
+    variation: "melodic/harmonic",
+    firstRole: "multiple melodic phrases, motifs, dynamic changes, and variations",
+    complementRole: "counter-melodies that answer the existing parts, melodic variations, and complementary fills",
+    usesKey: true,
+  },
+};
+
+export function buildPrompt(context: PromptContext): string {
+  const { instrument, style, bpm, key, existingInstruments } = context;
+  const timeSignature = context.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+  const template = FAMILY_TEMPLATES[getInstrumentFamily(instrument)];
+
+  const inst = instrument.toLowerCase();
+  const instrumentWithStyle = style ? `${style} ${inst}` : inst;
+  const meter = formatTimeSignature(timeSignature);
+  const styleDescription = style ? ` in ${style} style` : "";
+  const keyDescription = key && template.usesKey ? `, in the key of ${key}` : "";
+  const isFirstTrack = existingInstruments.length === 0;
+
+  const opening = isFirstTrack
+    ? `Generate a diverse 10 second SOLO ${instrumentWithStyle} loop at ${bpm} BPM, ${meter} time signature${styleDescription}${keyDescription}.`
+    : `Generate a diverse 10 second SOLO ${instrumentWithStyle} loop that complements existing ${existingInstruments.join(", ")} at ${bpm} BPM, ${meter} time signature${styleDescription}${keyDescription}.`;
+
+  const sections = [
+    opening,
+    `Create a VARIED and INTERESTING loopable pattern with ${isFirstTrack ? template.firstRole : template.complementRole} - NOT repetitive.`,
+    `The loop should be musically rich and diverse, containing at least 2-4 different patterns or variations within the 8-10 seconds${isFirstTrack ? "" : " that work with existing tracks"}.`,
+    `MUSICAL COMPLEXITY: ${template.complexity}`,
+    `Avoid repetitive single ${template.avoid} or simple patterns.`,
+    `CRITICAL: ONLY ${inst.toUpperCase()} SOUND - absolutely NO other instruments${isFirstTrack ? "" : " mixed in"}, NO backing tracks, NO accompaniment, NO drums (unless this IS drums), NO bass (unless this IS bass), NO piano, NO guitar, NO vocals, NO harmony instruments.`,
+    `This must be a COMPLETELY ISOLATED ${inst} track - pure ${inst} sound only, ${isFirstTrack ? "as if recorded in isolation for layering" : "recorded in isolation for perfect layering with other tracks"}.`,
+    `START IMMEDIATELY from first millisecond - no count-in, no intro, no drum stick clicks, no silence at beginning.`,
+    `Begin playing the ${instrumentWithStyle} ${isFirstTrack ? "groove" : "part"} from the very first moment.`,
+    `Create MUSICAL DIVERSITY within the loop and use ${template.diversity}.`,
+    `IMPORTANT: Keep it 8-10 seconds long. Maintain CONSISTENT VOLUME throughout - no fade-in, no fade-out, no volume changes. End abruptly at full volume for seamless looping.`,
+    `DURATION: 8-10 seconds with maximum musical and ${template.variation} variation. SOLO INSTRUMENT ONLY.`,
+  ];
+
+  return sections.join(" ");
+}
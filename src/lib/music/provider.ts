@@ -0,0 +1,50 @@
+// Backend-agnostic music generation contract. Each backend is an adapter that
+// turns a validated GenerateRequest into audio; the route picks one at runtime.
+import type { GenerateErrorCode, GenerateRequest } from "@/lib/music/request";
+
+export interface ComposeMetadata {
+  provider: string;
+  model: string;
+  prompt: string;
+  bpm: number;
+  durationMs: number;
+}
+
+export interface ComposeResult {
+  // Streams are passed through untouched, buffers are sent as-is
+  audio: ReadableStream<Uint8Array> | ArrayBuffer;
+  mimeType: string;
+  metadata: ComposeMetadata;
+}
+
+export interface MusicProvider {
+  readonly id: string;
+  compose(request: GenerateRequest, signal?: AbortSignal): Promise<ComposeResult>;
+}
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly code: GenerateErrorCode,
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+// Metadata travels back to the browser in a response header next to the audio body
+export const METADATA_HEADER = "X-Generation-Metadata";
+
+export function encodeMetadataHeader(metadata: ComposeMetadata): string {
+  return encodeURIComponent(JSON.stringify(metadata));
+}
+
+export function decodeMetadataHeader(value: string | null): ComposeMetadata | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(decodeURIComponent(value)) as ComposeMetadata;
+  } catch {
+    return null;
+  }
+}
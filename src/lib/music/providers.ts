@@ -0,0 +1,24 @@
+// Server-side provider registry. MUSIC_PROVIDER selects the backend (default: elevenlabs).
+import { ProviderError, type MusicProvider } from "@/lib/music/provider";
+import { createElevenLabsProvider } from "@/lib/music/elevenlabs-provider";
+import { mockProvider } from "@/lib/music/mock-provider";
+
+export function getMusicProvider(): MusicProvider {
+  const providerId = process.env.MUSIC_PROVIDER ?? "elevenlabs";
+
+  switch (providerId) {
+    case "mock":
+      return mockProvider;
+    case "elevenlabs": {
+      const apiKey = process.env.ELEVEN_API_KEY;
+      if (!apiKey) {
+        console.error("❌ ELEVEN_API_KEY is not configured");
+        throw new ProviderError("missing_api_key", "Music generation is not configured on the server", 500);
+      }
+      return createElevenLabsProvider(apiKey);
+    }
+    default:
+      console.error(`❌ Unknown MUSIC_PROVIDER "${providerId}"`);
+      throw new ProviderError("not_configured", "Music generation is not configured on the server", 500);
+  }
+}
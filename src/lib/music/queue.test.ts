@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GenerateError } from "@/lib/music/client";
+import { createGenerationQueue, getRetryDelay, isRetryableError } from "@/lib/music/queue";
+import type { GenerateErrorCode } from "@/lib/music/request";
+
+describe("isRetryableError", () => {
+  it.each<[GenerateErrorCode, number, boolean]>([
+    ["rate_limited", 429, true],
+    ["upstream_error", 502, true],
+    ["internal_error", 500, true],
+    // Configuration and rejected requests fail the same way every time, even with a 5xx status
+    ["missing_api_key", 500, false],
+    ["not_configured", 500, false],
+    ["upstream_rejected", 502, false],
+    ["invalid_request", 400, false],
+  ])("%s (%i) -> %s", (code, status, retryable) => {
+    expect(isRetryableError(new GenerateError(code, "failed", status))).toBe(retryable);
+  });
+
+  it("never retries errors that didn't come from the generate endpoint", () => {
+    expect(isRetryableError(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("doubles per attempt up to the cap, plus jitter", () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map((attempt) => getRetryDelay(attempt, () => 0))).toEqual([
+      1000, 2000, 4000, 8000, 16000, 16000, 16000,
+    ]);
+    expect(getRetryDelay(1, () => 1)).toBe(2500);
+  });
+});
+
+describe("createGenerationQueue retries", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries a rate-limited job until it succeeds", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new GenerateError("rate_limited", "slow down", 429))
+      .mockResolvedValueOnce("audio");
+    const result = createGenerationQueue().enqueue(1, task);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("audio");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails a missing API key straight away", async () => {
+    const task = vi.fn().mockRejectedValue(new GenerateError("missing_api_key", "not configured", 500));
+    const result = createGenerationQueue().enqueue(1, task);
+    const settled = expect(result).rejects.toMatchObject({ code: "missing_api_key" });
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
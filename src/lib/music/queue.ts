@@ -0,0 +1,157 @@
+// Client-side queue in front of /api/generate: caps parallel generations, retries
+// rate limits and upstream failures with exponential backoff, and lets any job be cancelled.
+import { GenerateError } from "@/lib/music/client";
+import { RETRYABLE_ERROR_CODES } from "@/lib/music/request";
+
+export const DEFAULT_GENERATION_CONCURRENCY = 2;
+export const GENERATION_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+export const MAX_GENERATION_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 16000;
+
+export type GenerationJobStatus = "queued" | "running" | "retrying";
+
+export interface GenerationJobState {
+  status: GenerationJobStatus;
+  attempt: number; // retries so far
+}
+
+export interface GenerationQueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  // null once the job settles (done, failed or cancelled)
+  onJobChange?: (id: number, state: GenerationJobState | null) => void;
+}
+
+export interface GenerationQueue {
+  enqueue<T>(id: number, task: (signal: AbortSignal) => Promise<T>): Promise<T>;
+  cancel(id: number): boolean;
+  has(id: number): boolean;
+  setConcurrency(concurrency: number): void;
+}
+
+interface QueuedJob {
+  id: number;
+  controller: AbortController;
+  start: () => void;
+  reject: (reason: unknown) => void;
+}
+
+// Rate limits and transient upstream/server failures are worth another try; validation errors,
+// missing configuration and requests the service rejected are not, whatever their status
+export function isRetryableError(err: unknown): boolean {
+  return err instanceof GenerateError && RETRYABLE_ERROR_CODES.includes(err.code);
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// 1s, 2s, 4s... capped, plus up to 25% jitter so parallel retries don't line up
+export function getRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.round(base * (1 + random() * 0.25));
+}
+
+function cancelledError(): DOMException {
+  return new DOMException("Generation cancelled", "AbortError");
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function createGenerationQueue(options: GenerationQueueOptions = {}): GenerationQueue {
+  let concurrency = options.concurrency ?? DEFAULT_GENERATION_CONCURRENCY;
+  const maxRetries = options.maxRetries ?? MAX_GENERATION_RETRIES;
+  const notify = options.onJobChange ?? (() => {});
+  const waiting: QueuedJob[] = [];
+  const running = new Map<number, QueuedJob>();
+
+  function has(id: number): boolean {
+    return running.has(id) || waiting.some((job) => job.id === id);
+  }
+
+  function pump() {
+    while (running.size < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running.set(job.id, job);
+      job.start();
+    }
+  }
+
+  async function runWithRetries<T>(id: number, task: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      notify(id, { status: attempt === 0 ? "running" : "retrying", attempt });
+      try {
+        return await task(signal);
+      } catch (err) {
+        if (signal.aborted) throw cancelledError();
+        if (!isRetryableError(err) || attempt >= maxRetries) throw err;
+        const delay = getRetryDelay(attempt);
+        console.warn(`⏳ Generation ${id} failed (${(err as GenerateError).code}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+        await wait(delay, signal);
+      }
+    }
+  }
+
+  return {
+    enqueue<T>(id: number, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+      if (has(id)) {
+        return Promise.reject(new Error(`Generation ${id} is already queued`));
+      }
+      return new Promise<T>((resolve, reject) => {
+        const controller = new AbortController();
+        waiting.push({
+          id,
+          controller,
+          reject,
+          start: async () => {
+            try {
+              resolve(await runWithRetries(id, task, controller.signal));
+            } catch (err) {
+              reject(err);
+            } finally {
+              running.delete(id);
+              notify(id, null);
+              pump();
+            }
+          },
+        });
+        notify(id, { status: "queued", attempt: 0 });
+        pump();
+      });
+    },
+
+    cancel(id: number): boolean {
+      const index = waiting.findIndex((job) => job.id === id);
+      if (index >= 0) {
+        const [job] = waiting.splice(index, 1);
+        job.reject(cancelledError());
+        notify(id, null);
+        return true;
+      }
+      const job = running.get(id);
+      if (!job) return false;
+      job.controller.abort();
+      return true;
+    },
+
+    has,
+
+    setConcurrency(next: number) {
+      concurrency = Math.max(1, Math.floor(next));
+      pump();
+    },
+  };
+}
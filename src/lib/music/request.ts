@@ -0,0 +1,137 @@
+// Request/response contract for POST /api/generate, shared by the route handler and the client
+import { availableInstruments } from "@/lib/instruments";
+import {
+  DEFAULT_TIME_SIGNATURE,
+  TIME_SIGNATURES,
+  formatTimeSignature,
+  isSupportedTimeSignature,
+  type TimeSignature,
+} from "@/lib/timing";
+
+export const MIN_BPM = 60;
+export const MAX_BPM = 200;
+export const MIN_DURATION_MS = 3000;
+export const MAX_DURATION_MS = 30000;
+const MAX_STYLE_LENGTH = 40;
+const MAX_EXISTING_INSTRUMENTS = 16;
+
+// Letters (Latin + Cyrillic), spaces and hyphens only - styles end up inside the prompt
+const STYLE_PATTERN = /^[a-zA-Zа-яА-ЯёЁ\s-]+$/;
+// e.g. "A minor", "F# major", "Bb minor"
+const KEY_PATTERN = /^[A-G][#b]? (major|minor)$/;
+
+export interface GenerateRequest {
+  instrument: string;
+  style?: string;
+  bpm: number;
+  durationMs: number;
+  timeSignature: TimeSignature;
+  key?: string;
+  existingInstruments: string[];
+}
+
+export type GenerateErrorCode =
+  | "invalid_request"
+  | "missing_api_key"
+  | "not_configured" // MUSIC_PROVIDER names no known backend
+  | "rate_limited"
+  | "upstream_rejected" // the service refused the request itself (bad key, bad input) - retrying won't help
+  | "upstream_error"
+  | "internal_error";
+
+// Transient failures worth another attempt; everything else needs a fix first
+export const RETRYABLE_ERROR_CODES: readonly GenerateErrorCode[] = ["rate_limited", "upstream_error", "internal_error"];
+
+export interface GenerateErrorBody {
+  error: {
+    code: GenerateErrorCode;
+    message: string;
+    field?: keyof GenerateRequest;
+  };
+}
+
+export type ValidationResult =
+  | { ok: true; value: GenerateRequest }
+  | { ok: false; error: GenerateErrorBody["error"] };
+
+function invalid(field: keyof GenerateRequest, message: string): ValidationResult {
+  return { ok: false, error: { code: "invalid_request", message, field } };
+}
+
+export function validateGenerateRequest(body: unknown): ValidationResult {
+  if (typeof body !== "object" || body === null) {
+    return { ok: false, error: { code: "invalid_request", message: "Request body must be a JSON object" } };
+  }
+  const input = body as Record<string, unknown>;
+
+  const instrument = input.instrument;
+  if (typeof instrument !== "string" || !availableInstruments.includes(instrument)) {
+    return invalid("instrument", `Unknown instrument. Expected one of: ${availableInstruments.join(", ")}`);
+  }
+
+  let style: string | undefined;
+  if (input.style !== undefined && input.style !== null && input.style !== "") {
+    if (typeof input.style !== "string") {
+      return invalid("style", "Style must be a string");
+    }
+    style = input.style.trim();
+    if (style.length > MAX_STYLE_LENGTH || !STYLE_PATTERN.test(style)) {
+      return invalid("style", `Style must be up to ${MAX_STYLE_LENGTH} letters, spaces or hyphens`);
+    }
+  }
+
+  const bpm = input.bpm;
+  if (typeof bpm !== "number" || !Number.isInteger(bpm) || bpm < MIN_BPM || bpm > MAX_BPM) {
+    return invalid("bpm", `BPM must be an integer between ${MIN_BPM} and ${MAX_BPM}`);
+  }
+
+  const durationMs = input.durationMs;
+  if (
+    typeof durationMs !== "number" ||
+    !Number.isFinite(durationMs) ||
+    durationMs < MIN_DURATION_MS ||
+    durationMs > MAX_DURATION_MS
+  ) {
+    return invalid("durationMs", `Duration must be between ${MIN_DURATION_MS} and ${MAX_DURATION_MS} ms`);
+  }
+
+  const timeSignature = input.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+  if (!isSupportedTimeSignature(timeSignature)) {
+    return invalid(
+      "timeSignature",
+      `Unsupported time signature. Expected one of: ${TIME_SIGNATURES.map(formatTimeSignature).join(", ")}`
+    );
+  }
+
+  let key: string | undefined;
+  if (input.key !== undefined && input.key !== null && input.key !== "") {
+    if (typeof input.key !== "string" || !KEY_PATTERN.test(input.key)) {
+      return invalid("key", 'Key must look like "A minor" or "F# major"');
+    }
+    key = input.key;
+  }
+
+  const existing = input.existingInstruments ?? [];
+  if (
+    !Array.isArray(existing) ||
+    existing.length > MAX_EXISTING_INSTRUMENTS ||
+    existing.some(
+      (name) => typeof name !== "string" || name.length > MAX_STYLE_LENGTH * 2 || !STYLE_PATTERN.test(name)
+    )
+  ) {
+    return invalid("existingInstruments", "existingInstruments must be a short list of track names");
+  }
+
+  return {
+    ok: true,
+    value: {
+      instrument,
+      style,
+      bpm,
+      durationMs: Math.round(durationMs),
+      timeSignature: { beats: timeSignature.beats, noteValue: timeSignature.noteValue },
+      key,
+      existingInstruments: existing as string[],
+    },
+  };
+}
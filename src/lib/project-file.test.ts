@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ProjectFileError, createProjectFile, readProjectFile, type ProjectSnapshot } from "@/lib/project-file";
+import { getTrackTakes } from "@/lib/takes";
+import { DEFAULT_TIME_SIGNATURE } from "@/lib/timing";
+import { DEFAULT_MASTER_VOLUME } from "@/lib/mixer";
+import { DEFAULT_STRETCH_MODE } from "@/lib/audio/time-stretch";
+import type { Track } from "@/lib/track";
+
+const session = { bpm: 100, timeSignature: DEFAULT_TIME_SIGNATURE, masterVolume: DEFAULT_MASTER_VOLUME, stretchMode: DEFAULT_STRETCH_MODE };
+
+// Takes after "Fix tempo": asked for 100 BPM, corrected to what was measured
+const corrected = (id: number, name: string, bpm: number): Track => ({
+  id,
+  name,
+  url: `blob:${id}`,
+  bpm,
+  timeSignature: DEFAULT_TIME_SIGNATURE,
+  tempoAnalysis: { bpm, expectedBPM: 100, downbeatOffset: 0, audioStart: 0, confidence: 0.9 },
+});
+
+function snapshot(tracks: Track[]): ProjectSnapshot {
+  const audio = new Map(tracks.map((track) => [track.id, new Blob([new Uint8Array([1, 2, 3])], { type: "audio/mpeg" })]));
+  return { session, tracks, history: [], audio };
+}
+
+// A bare manifest with one take, for checking what validation lets through
+function manifestWithTake(fields: Record<string, unknown>): Blob {
+  const take = { id: 1, audio: null, ...fields };
+  const track = { id: 1, name: "Bass", takes: [take], activeTakeId: 1, muted: false, solo: false, volume: 1, pan: 0 };
+  const manifest = {
+    format: "groove-project",
+    version: 2,
+    savedAt: new Date(0).toISOString(),
+    session: { bpm: 100, timeSignature: "4/4", masterVolume: 1, stretchMode: "varispeed" },
+    tracks: [track],
+    history: [],
+  };
+  return json(manifest);
+}
+
+function json(value: unknown): Blob {
+  return new Blob([JSON.stringify(value)], { type: "application/json" });
+}
+
+describe("project files", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reopens takes whose tempo was corrected to a fractional or out-of-range BPM", async () => {
+    const tracks = [corrected(1, "Funk Bass Guitar", 97.3), corrected(2, "Rock Drum Set", 212.4)];
+    const project = await readProjectFile(await createProjectFile(snapshot(tracks)));
+
+    expect(project.tracks.map((track) => getTrackTakes(track)[0].bpm)).toEqual([97.3, 212.4]);
+    expect(project.tracks.map((track) => track.bpm)).toEqual([97.3, 212.4]);
+    expect([...project.audio.keys()]).toEqual([1, 2]);
+  });
+
+  it("still rejects take tempos no measurement could produce", async () => {
+    for (const bpm of [450, 10, "fast"]) {
+      await expect(readProjectFile(manifestWithTake({ bpm }))).rejects.toThrow(ProjectFileError);
+    }
+    await expect(readProjectFile(manifestWithTake({ bpm: 63.5 }))).resolves.toBeDefined();
+  });
+
+  it("rejects a loop that ends before it starts", async () => {
+    for (const [loopStart, loopEnd] of [[2, 1], [1.5, 1.5]]) {
+      await expect(readProjectFile(manifestWithTake({ loopStart, loopEnd }))).rejects.toThrow("loopEnd: must be after loopStart");
+    }
+    const project = await readProjectFile(manifestWithTake({ loopStart: 0.5, loopEnd: 2.5 }));
+    expect(getTrackTakes(project.tracks[0])[0]).toMatchObject({ loopStart: 0.5, loopEnd: 2.5 });
+  });
+
+  it("reports a legacy file without a track list as an invalid manifest", async () => {
+    for (const legacy of [{ version: 0 }, { version: 0, tracks: "Bass" }]) {
+      await expect(readProjectFile(json(legacy))).rejects.toThrow(new ProjectFileError("invalid_manifest", "tracks: must be an array"));
+    }
+    const project = await readProjectFile(json([{ id: 1, name: "Bass" }]));
+    expect(project).toMatchObject({ migratedFrom: 0, tracks: [{ id: 1, name: "Bass", stale: true }] });
+  });
+});
@@ -0,0 +1,532 @@
+// Versioned .groove project files: a ZIP holding project.json plus the audio of every track.
+// Older versions are migrated step by step up to PROJECT_VERSION before validation.
+import type { Track, TrackTake } from "@/lib/track";
+import { getActiveTakeId, getTrackTakes, selectTake } from "@/lib/takes";
+import { MAX_BPM, MIN_BPM } from "@/lib/music/request";
+import { DEFAULT_MASTER_VOLUME, DEFAULT_PAN, DEFAULT_VOLUME, getTrackPan, getTrackVolume } from "@/lib/mixer";
+import { DEFAULT_TIME_SIGNATURE, formatTimeSignature, parseTimeSignature, type TimeSignature } from "@/lib/timing";
+import { DEFAULT_STRETCH_MODE, type StretchMode } from "@/lib/audio/time-stretch";
+import { MAX_MEASURED_BPM, MIN_MEASURED_BPM } from "@/lib/audio/tempo-detection";
+import {
+  DEFAULT_TRACK_EFFECTS,
+  DELAY_BEAT_OPTIONS,
+  EQ_RANGE_DB,
+  FILTER_MODES,
+  MAX_DELAY_FEEDBACK,
+  MAX_FILTER_FREQUENCY,
+  MIN_FILTER_FREQUENCY,
+  type FilterMode,
+  type TrackEffects,
+} from "@/lib/audio/effects";
+import { createZip, readZip, type ZipEntry } from "@/lib/zip";
+
+export const PROJECT_FORMAT = "groove-project";
+export const PROJECT_VERSION = 2;
+export const PROJECT_EXTENSION = ".groove";
+export const PROJECT_MANIFEST_FILE = "project.json";
+// Sanity bound for a take's loop points - generated clips are far shorter
+const MAX_LOOP_SECONDS = 60;
+
+export type ProjectErrorCode = "invalid_archive" | "invalid_manifest" | "unsupported_version";
+
+export class ProjectFileError extends Error {
+  code: ProjectErrorCode;
+
+  constructor(code: ProjectErrorCode, message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+    this.code = code;
+  }
+}
+
+export interface ProjectTake {
+  id: number;
+  audio: string | null; // path of the audio entry inside the archive
+  mimeType?: string;
+  style?: string;
+  prompt?: string;
+  bpm?: number;
+  timeSignature?: string;
+  loopStart?: number; // seconds - realigned downbeat or hand-picked loop
+  loopEnd?: number;
+  createdAt?: number;
+}
+
+export interface ProjectTrack {
+  id: number;
+  name: string;
+  instrument?: string;
+  takes: ProjectTake[];
+  activeTakeId: number;
+  muted: boolean;
+  solo: boolean;
+  volume: number;
+  pan: number;
+  effects?: TrackEffects; // absent when every effect is neutral
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  savedAt: string;
+  session: {
+    bpm: number;
+    timeSignature: string;
+    masterVolume: number;
+    stretchMode: StretchMode;
+  };
+  tracks: ProjectTrack[];
+  history: string[];
+}
+
+export interface ProjectSession {
+  bpm: number;
+  timeSignature: TimeSignature;
+  masterVolume: number;
+  stretchMode: StretchMode;
+}
+
+export interface ProjectSnapshot {
+  session: ProjectSession;
+  tracks: Track[];
+  history: string[];
+  audio: Map<number, Blob>; // keyed by take id
+}
+
+export interface LoadedProject extends ProjectSnapshot {
+  migratedFrom?: number;
+}
+
+type RawProject = Record<string, unknown>;
+
+// Keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // Version 0 is the bare Track[] array the app kept in localStorage before project files existed.
+  // It has no session or audio, so the tracks come back stale.
+  0: (project) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: new Date(0).toISOString(),
+    session: {
+      bpm: 120,
+      timeSignature: formatTimeSignature(DEFAULT_TIME_SIGNATURE),
+      masterVolume: DEFAULT_MASTER_VOLUME,
+      stretchMode: DEFAULT_STRETCH_MODE,
+    },
+    tracks: readLegacyTracks(project.tracks).map((raw) => {
+      const track = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+      return {
+        ...track,
+        audio: null,
+        timeSignature: isTimeSignatureObject(track.timeSignature)
+          ? formatTimeSignature(track.timeSignature)
+          : track.timeSignature,
+        muted: track.muted ?? false,
+        solo: track.solo ?? false,
+        volume: track.volume ?? DEFAULT_VOLUME,
+        pan: track.pan ?? DEFAULT_PAN,
+      };
+    }),
+    history: [],
+  }),
+  // Version 2 added alternate takes; each v1 track becomes a single take stored under its own id
+  1: (project) => ({
+    ...project,
+    version: 2,
+    tracks: Array.isArray(project.tracks)
+      ? project.tracks.map((raw) => {
+          if (typeof raw !== "object" || raw === null) return raw;
+          const { audio, mimeType, style, prompt, bpm, timeSignature, ...track } = raw as Record<string, unknown>;
+          return {
+            ...track,
+            takes: [{ id: track.id, audio, mimeType, style, prompt, bpm, timeSignature }],
+            activeTakeId: track.id,
+          };
+        })
+      : project.tracks,
+  }),
+};
+
+function readLegacyTracks(value: unknown): unknown[] {
+  if (!Array.isArray(value)) invalid("tracks", "must be an array");
+  return value;
+}
+
+function isTimeSignatureObject(value: unknown): value is TimeSignature {
+  return typeof value === "object" && value !== null && "beats" in value && "noteValue" in value;
+}
+
+function audioExtension(mimeType: string): string {
+  if (mimeType.includes("mpeg") || mimeType.includes("mp3")) return "mp3";
+  if (mimeType.includes("wav")) return "wav";
+  if (mimeType.includes("ogg")) return "ogg";
+  return "bin";
+}
+
+export async function createProjectFile(snapshot: ProjectSnapshot, savedAt: Date = new Date()): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const tracks: ProjectTrack[] = [];
+
+  for (const track of snapshot.tracks) {
+    const takes: ProjectTake[] = [];
+    for (const take of getTrackTakes(track)) {
+      const blob = snapshot.audio.get(take.id);
+      let audio: string | null = null;
+      if (blob) {
+        audio = `audio/${take.id}.${audioExtension(blob.type)}`;
+        entries.push({ name: audio, data: await blob.arrayBuffer() });
+      }
+      takes.push({
+        id: take.id,
+        audio,
+        mimeType: blob?.type || undefined,
+        style: take.style,
+        prompt: take.prompt,
+        bpm: take.bpm,
+        timeSignature: take.timeSignature ? formatTimeSignature(take.timeSignature) : undefined,
+        loopStart: take.loopStart,
+        loopEnd: take.loopEnd,
+        createdAt: take.createdAt,
+      });
+    }
+
+    tracks.push({
+      id: track.id,
+      name: track.name,
+      instrument: track.instrument,
+      takes,
+      activeTakeId: getActiveTakeId(track),
+      muted: !!track.muted,
+      solo: !!track.solo,
+      volume: getTrackVolume(track),
+      pan: getTrackPan(track),
+      effects: track.effects,
+    });
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: savedAt.toISOString(),
+    session: {
+      bpm: snapshot.session.bpm,
+      timeSignature: formatTimeSignature(snapshot.session.timeSignature),
+      masterVolume: snapshot.session.masterVolume,
+      stretchMode: snapshot.session.stretchMode,
+    },
+    tracks,
+    history: snapshot.history,
+  };
+  entries.unshift({ name: PROJECT_MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) });
+
+  console.log(`💾 Packed project: ${tracks.length} tracks, ${entries.length - 1} audio files`);
+  return createZip(entries, savedAt);
+}
+
+// Brings any supported version up to PROJECT_VERSION
+export function migrateProject(input: unknown): { project: RawProject; migratedFrom?: number } {
+  let project: RawProject;
+  if (Array.isArray(input)) {
+    project = { version: 0, tracks: input };
+  } else if (typeof input === "object" && input !== null) {
+    project = input as RawProject;
+  } else {
+    throw new ProjectFileError("invalid_manifest", "Project manifest must be a JSON object");
+  }
+
+  if (project.version !== 0 && project.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("invalid_manifest", "This is not a Groove project file");
+  }
+
+  const version = project.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new ProjectFileError("invalid_manifest", "Project version must be a non-negative integer");
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      "unsupported_version",
+      `This project was saved by a newer version of the app (format v${version}, this app reads up to v${PROJECT_VERSION}). Please update and try again.`
+    );
+  }
+
+  let current = version;
+  while (current < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[current];
+    if (!migrate) {
+      throw new ProjectFileError("unsupported_version", `No migration from project format v${current}`);
+    }
+    project = migrate(project);
+    current = project.version as number;
+    console.log(`🔁 Migrated project to format v${current}`);
+  }
+
+  return { project, migratedFrom: version < PROJECT_VERSION ? version : undefined };
+}
+
+function invalid(path: string, message: string): never {
+  throw new ProjectFileError("invalid_manifest", `${path}: ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readBpm(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < MIN_BPM || value > MAX_BPM) {
+    invalid(path, `must be an integer between ${MIN_BPM} and ${MAX_BPM}`);
+  }
+  return value;
+}
+
+// A take's tempo can be one corrected to what was measured - fractional and outside the generation range
+function readTakeBpm(value: unknown, path: string): number {
+  return readNumber(value, path, MIN_MEASURED_BPM, MAX_MEASURED_BPM);
+}
+
+function readTimeSignature(value: unknown, path: string): TimeSignature {
+  const parsed = typeof value === "string" ? parseTimeSignature(value) : null;
+  if (!parsed) invalid(path, `unsupported time signature ${JSON.stringify(value)}`);
+  return parsed;
+}
+
+function readNumber(value: unknown, path: string, min: number, max: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    invalid(path, `must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+// Missing fields fall back to neutral, so files from before an effect existed still load
+function readEffects(value: unknown, path: string): TrackEffects | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) invalid(path, "must be an object");
+  const raw = { ...DEFAULT_TRACK_EFFECTS, ...value };
+  if (!FILTER_MODES.includes(raw.filter as FilterMode)) {
+    invalid(`${path}.filter`, `must be one of ${FILTER_MODES.join(", ")}`);
+  }
+  if (!DELAY_BEAT_OPTIONS.includes(raw.delayBeats as number)) {
+    invalid(`${path}.delayBeats`, `must be one of ${DELAY_BEAT_OPTIONS.join(", ")}`);
+  }
+  return {
+    eqLow: readNumber(raw.eqLow, `${path}.eqLow`, -EQ_RANGE_DB, EQ_RANGE_DB),
+    eqMid: readNumber(raw.eqMid, `${path}.eqMid`, -EQ_RANGE_DB, EQ_RANGE_DB),
+    eqHigh: readNumber(raw.eqHigh, `${path}.eqHigh`, -EQ_RANGE_DB, EQ_RANGE_DB),
+    filter: raw.filter as FilterMode,
+    filterFrequency: readNumber(raw.filterFrequency, `${path}.filterFrequency`, MIN_FILTER_FREQUENCY, MAX_FILTER_FREQUENCY),
+    compression: readNumber(raw.compression, `${path}.compression`, 0, 1),
+    delayMix: readNumber(raw.delayMix, `${path}.delayMix`, 0, 1),
+    delayBeats: raw.delayBeats as number,
+    delayFeedback: readNumber(raw.delayFeedback, `${path}.delayFeedback`, 0, MAX_DELAY_FEEDBACK),
+    reverbSend: readNumber(raw.reverbSend, `${path}.reverbSend`, 0, 1),
+  };
+}
+
+function readOptionalString(value: unknown, path: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") invalid(path, "must be a string");
+  return value;
+}
+
+// Validates a manifest that is already at PROJECT_VERSION
+export function validateProjectManifest(project: RawProject): ProjectManifest {
+  const session = project.session;
+  if (!isRecord(session)) invalid("session", "missing or not an object");
+
+  const stretchMode = session.stretchMode ?? DEFAULT_STRETCH_MODE;
+  if (stretchMode !== "varispeed" && stretchMode !== "quality") {
+    invalid("session.stretchMode", 'must be "varispeed" or "quality"');
+  }
+
+  if (!Array.isArray(project.tracks)) invalid("tracks", "must be an array");
+  const seenTrackIds = new Set<number>();
+  const seenTakeIds = new Set<number>();
+  const tracks = project.tracks.map((raw, i): ProjectTrack => {
+    const path = `tracks[${i}]`;
+    if (!isRecord(raw)) invalid(path, "must be an object");
+
+    if (typeof raw.id !== "number" || !Number.isSafeInteger(raw.id)) invalid(`${path}.id`, "must be an integer");
+    if (seenTrackIds.has(raw.id)) invalid(`${path}.id`, `duplicate track id ${raw.id}`);
+    seenTrackIds.add(raw.id);
+
+    if (typeof raw.name !== "string" || raw.name.trim() === "") invalid(`${path}.name`, "must be a non-empty string");
+
+    if (!Array.isArray(raw.takes) || raw.takes.length === 0) invalid(`${path}.takes`, "must be a non-empty array");
+    const takes = raw.takes.map((rawTake, t): ProjectTake => {
+      const takePath = `${path}.takes[${t}]`;
+      if (!isRecord(rawTake)) invalid(takePath, "must be an object");
+
+      // Take ids are audio storage keys, so they must be unique across the whole project
+      if (typeof rawTake.id !== "number" || !Number.isSafeInteger(rawTake.id)) invalid(`${takePath}.id`, "must be an integer");
+      if (seenTakeIds.has(rawTake.id)) invalid(`${takePath}.id`, `duplicate take id ${rawTake.id}`);
+      seenTakeIds.add(rawTake.id);
+
+      if (rawTake.audio !== null && typeof rawTake.audio !== "string") {
+        invalid(`${takePath}.audio`, "must be a file path or null");
+      }
+
+      const loopStart =
+        rawTake.loopStart === undefined || rawTake.loopStart === null
+          ? undefined
+          : readNumber(rawTake.loopStart, `${takePath}.loopStart`, 0, MAX_LOOP_SECONDS);
+      const loopEnd =
+        rawTake.loopEnd === undefined || rawTake.loopEnd === null
+          ? undefined
+          : readNumber(rawTake.loopEnd, `${takePath}.loopEnd`, 0, MAX_LOOP_SECONDS);
+      if (loopStart !== undefined && loopEnd !== undefined && loopEnd <= loopStart) {
+        invalid(`${takePath}.loopEnd`, `must be after loopStart (${loopStart})`);
+      }
+
+      return {
+        id: rawTake.id,
+        audio: rawTake.audio,
+        mimeType: readOptionalString(rawTake.mimeType, `${takePath}.mimeType`),
+        style: readOptionalString(rawTake.style, `${takePath}.style`),
+        prompt: readOptionalString(rawTake.prompt, `${takePath}.prompt`),
+        bpm: rawTake.bpm === undefined || rawTake.bpm === null ? undefined : readTakeBpm(rawTake.bpm, `${takePath}.bpm`),
+        timeSignature:
+          rawTake.timeSignature === undefined || rawTake.timeSignature === null
+            ? undefined
+            : formatTimeSignature(readTimeSignature(rawTake.timeSignature, `${takePath}.timeSignature`)),
+        loopStart,
+        loopEnd,
+        createdAt: typeof rawTake.createdAt === "number" ? rawTake.createdAt : undefined,
+      };
+    });
+
+    if (!takes.some((take) => take.id === raw.activeTakeId)) {
+      invalid(`${path}.activeTakeId`, "must match one of the track's takes");
+    }
+
+    return {
+      id: raw.id,
+      name: raw.name,
+      instrument: readOptionalString(raw.instrument, `${path}.instrument`),
+      takes,
+      activeTakeId: raw.activeTakeId as number,
+      muted: !!raw.muted,
+      solo: !!raw.solo,
+      volume: readNumber(raw.volume ?? DEFAULT_VOLUME, `${path}.volume`, 0, 1),
+      pan: readNumber(raw.pan ?? DEFAULT_PAN, `${path}.pan`, -1, 1),
+      effects: readEffects(raw.effects, `${path}.effects`),
+    };
+  });
+
+  const history = project.history ?? [];
+  if (!Array.isArray(history) || history.some((entry) => typeof entry !== "string")) {
+    invalid("history", "must be a list of strings");
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof project.savedAt === "string" ? project.savedAt : new Date(0).toISOString(),
+    session: {
+      bpm: readBpm(session.bpm, "session.bpm"),
+      timeSignature: formatTimeSignature(readTimeSignature(session.timeSignature, "session.timeSignature")),
+      masterVolume: readNumber(session.masterVolume ?? DEFAULT_MASTER_VOLUME, "session.masterVolume", 0, 1),
+      stretchMode,
+    },
+    tracks,
+    history,
+  };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("invalid_manifest", `${PROJECT_MANIFEST_FILE} is not valid JSON`);
+  }
+}
+
+// Accepts a .groove archive, or a bare JSON manifest / legacy track list (imported without audio)
+export async function readProjectFile(file: Blob): Promise<LoadedProject> {
+  const data = await file.arrayBuffer();
+  const bytes = new Uint8Array(data);
+  const isZip = bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+  let entries = new Map<string, Uint8Array>();
+  let json: unknown;
+  if (isZip) {
+    try {
+      entries = readZip(data);
+    } catch (err) {
+      throw new ProjectFileError("invalid_archive", `Damaged project file: ${(err as Error).message}`);
+    }
+    const manifestBytes = entries.get(PROJECT_MANIFEST_FILE);
+    if (!manifestBytes) {
+      throw new ProjectFileError("invalid_archive", `Project file has no ${PROJECT_MANIFEST_FILE}`);
+    }
+    json = parseJson(new TextDecoder().decode(manifestBytes));
+  } else {
+    json = parseJson(new TextDecoder().decode(bytes));
+  }
+
+  const { project, migratedFrom } = migrateProject(json);
+  const manifest = validateProjectManifest(project);
+
+  const audio = new Map<number, Blob>();
+  const tracks: Track[] = manifest.tracks.map((track) => {
+    const takes: TrackTake[] = track.takes.map((take) => {
+      const audioBytes = take.audio ? entries.get(take.audio) : undefined;
+      if (take.audio && !audioBytes) {
+        console.warn(`⚠️ Project is missing audio for ${track.name} (${take.audio})`);
+      }
+      if (audioBytes) {
+        audio.set(take.id, new Blob([audioBytes as BlobPart], { type: take.mimeType ?? "audio/mpeg" }));
+      }
+      return {
+        id: take.id,
+        url: null,
+        stale: !audioBytes,
+        style: take.style,
+        prompt: take.prompt,
+        bpm: take.bpm,
+        timeSignature: take.timeSignature ? parseTimeSignature(take.timeSignature) ?? undefined : undefined,
+        loopStart: take.loopStart,
+        loopEnd: take.loopEnd,
+        createdAt: take.createdAt,
+      };
+    });
+
+    const base: Track = {
+      id: track.id,
+      name: track.name,
+      url: null,
+      instrument: track.instrument,
+      muted: track.muted,
+      solo: track.solo,
+      volume: track.volume,
+      pan: track.pan,
+      effects: track.effects,
+    };
+    // A lone take stored under the track id is just a plain track
+    const plain = takes.length === 1 && takes[0].id === track.id;
+    if (!plain) return selectTake({ ...base, takes }, track.activeTakeId);
+    const [take] = takes;
+    return {
+      ...base,
+      url: null,
+      stale: take.stale,
+      style: take.style,
+      prompt: take.prompt,
+      bpm: take.bpm,
+      timeSignature: take.timeSignature,
+      loopStart: take.loopStart,
+      loopEnd: take.loopEnd,
+    };
+  });
+
+  return {
+    session: {
+      bpm: manifest.session.bpm,
+      timeSignature: parseTimeSignature(manifest.session.timeSignature) ?? DEFAULT_TIME_SIGNATURE,
+      masterVolume: manifest.session.masterVolume,
+      stretchMode: manifest.session.stretchMode,
+    },
+    tracks,
+    history: manifest.history,
+    audio,
+    migratedFrom,
+  };
+}
@@ -0,0 +1,100 @@
+// Alternate takes of a track for A/B comparison.
+// Playback, mixing and export read the Track's own fields, which mirror the active take,
+// so only regenerate/select/restore code needs to know takes exist.
+import type { Track, TrackTake } from "@/lib/track";
+import { restoreTrackUrls } from "@/lib/audio-store";
+
+function takeFromTrack(track: Track): TrackTake {
+  return {
+    id: track.id,
+    url: track.url,
+    style: track.style,
+    prompt: track.prompt,
+    bpm: track.bpm,
+    timeSignature: track.timeSignature,
+    tempoAnalysis: track.tempoAnalysis,
+    loudness: track.loudness,
+    loopStart: track.loopStart,
+    loopEnd: track.loopEnd,
+    stale: track.stale,
+  };
+}
+
+export function getTrackTakes(track: Track): TrackTake[] {
+  return track.takes && track.takes.length > 0 ? track.takes : [takeFromTrack(track)];
+}
+
+// Storage/buffer key of the audio currently playing for this track
+export function getActiveTakeId(track: Track): number {
+  return track.activeTakeId ?? track.id;
+}
+
+export function getTakeLabel(index: number): string {
+  return String.fromCharCode(65 + (index % 26)); // A, B, C...
+}
+
+function mirrorTake(track: Track, take: TrackTake): Track {
+  return {
+    ...track,
+    url: take.url,
+    style: take.style,
+    prompt: take.prompt,
+    bpm: take.bpm,
+    timeSignature: take.timeSignature,
+    tempoAnalysis: take.tempoAnalysis,
+    loudness: take.loudness,
+    loopStart: take.loopStart,
+    loopEnd: take.loopEnd,
+    stale: take.stale,
+  };
+}
+
+function withActiveTake(track: Track, takes: TrackTake[], activeTakeId: number): Track {
+  const active = takes.find((take) => take.id === activeTakeId) ?? takes[takes.length - 1];
+  return { ...mirrorTake(track, active), takes, activeTakeId: active.id };
+}
+
+// Appends a freshly generated take and makes it the active one
+export function addTake(track: Track, take: TrackTake): Track {
+  return withActiveTake(track, [...getTrackTakes(track), take], take.id);
+}
+
+export function selectTake(track: Track, takeId: number): Track {
+  const takes = getTrackTakes(track);
+  if (!takes.some((take) => take.id === takeId)) return track;
+  return withActiveTake(track, takes, takeId);
+}
+
+// Keeps only the active take; the caller frees the discarded audio
+export function keepActiveTake(track: Track): { track: Track; discarded: TrackTake[] } {
+  const activeId = getActiveTakeId(track);
+  const takes = getTrackTakes(track);
+  return {
+    track: withActiveTake(track, takes.filter((take) => take.id === activeId), activeId),
+    discarded: takes.filter((take) => take.id !== activeId),
+  };
+}
+
+// Updates every take, keeping the track's mirrored fields in sync
+export function mapTakes(track: Track, update: (take: TrackTake) => TrackTake): Track {
+  if (!track.takes || track.takes.length === 0) return mirrorTake(track, update(takeFromTrack(track)));
+  return withActiveTake(track, track.takes.map(update), getActiveTakeId(track));
+}
+
+export function getAllTakeIds(tracks: Track[]): number[] {
+  return tracks.flatMap((track) => getTrackTakes(track).map((take) => take.id));
+}
+
+// Rebuilds blob URLs for every take, not just the active one
+export async function restoreTakeUrls(tracks: Track[]): Promise<Track[]> {
+  return Promise.all(
+    tracks.map(async (track) => {
+      if (!track.takes || track.takes.length === 0) {
+        const [restored] = await restoreTrackUrls([track]);
+        return restored;
+      }
+      const takes = await restoreTrackUrls(track.takes);
+      return withActiveTake(track, takes, getActiveTakeId(track));
+    })
+  );
+}
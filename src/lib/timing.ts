@@ -0,0 +1,65 @@
+// Musical time helpers shared by generation, playback and the UI
+
+export interface TimeSignature {
+  beats: number;
+  noteValue: number;
+}
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, noteValue: 4 };
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  DEFAULT_TIME_SIGNATURE,
+  { beats: 3, noteValue: 4 },
+  { beats: 6, noteValue: 8 },
+  { beats: 5, noteValue: 4 },
+  { beats: 7, noteValue: 8 },
+  { beats: 12, noteValue: 8 },
+];
+
+// Loops are the shortest whole number of bars lasting at least this long
+export const TARGET_LOOP_SECONDS = 10;
+
+export function formatTimeSignature({ beats, noteValue }: TimeSignature): string {
+  return `${beats}/${noteValue}`;
+}
+
+export function parseTimeSignature(value: string): TimeSignature | null {
+  return TIME_SIGNATURES.find((ts) => formatTimeSignature(ts) === value) ?? null;
+}
+
+export function isSupportedTimeSignature(value: unknown): value is TimeSignature {
+  if (typeof value !== "object" || value === null) return false;
+  const { beats, noteValue } = value as Record<string, unknown>;
+  return TIME_SIGNATURES.some((ts) => ts.beats === beats && ts.noteValue === noteValue);
+}
+
+// BPM always counts quarter notes, whatever the meter
+export function secondsPerBeat(bpm: number): number {
+  return 60 / bpm;
+}
+
+// Length of one counted pulse of the meter: a quarter in 3/4, an eighth in 6/8
+export function secondsPerPulse(bpm: number, timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE): number {
+  return secondsPerBeat(bpm) * (4 / timeSignature.noteValue);
+}
+
+export function secondsPerBar(bpm: number, timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE): number {
+  return secondsPerPulse(bpm, timeSignature) * timeSignature.beats;
+}
+
+// Find the minimum number of bars that gives us at least TARGET_LOOP_SECONDS
+export function calculateLoopBars(bpm: number, timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE): number {
+  return Math.ceil(TARGET_LOOP_SECONDS / secondsPerBar(bpm, timeSignature));
+}
+
+// Calculate optimal duration for complete musical phrases
+export function calculateOptimalDuration(bpm: number, timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE): number {
+  const bars = calculateLoopBars(bpm, timeSignature);
+
+  // Rounded to avoid floating point issues
+  const durationSeconds = Math.round(bars * secondsPerBar(bpm, timeSignature) * 1000) / 1000;
+
+  console.log(`🎵 Calculated duration for ${bpm} BPM in ${formatTimeSignature(timeSignature)}: ${bars} bars = ${durationSeconds.toFixed(2)} seconds`);
+
+  return durationSeconds;
+}
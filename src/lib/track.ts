@@ -0,0 +1,49 @@
+import type { TimeSignature } from "@/lib/timing";
+import type { TempoAnalysis } from "@/lib/audio/tempo-detection";
+import type { LoudnessAnalysis } from "@/lib/audio/loudness";
+import type { TrackEffects } from "@/lib/audio/effects";
+
+// One generated version of a track. Its audio is stored under the take id.
+export interface TrackTake {
+  id: number;
+  url: string | null;
+  style?: string;
+  prompt?: string;
+  bpm?: number;
+  timeSignature?: TimeSignature;
+  tempoAnalysis?: TempoAnalysis;
+  loudness?: LoudnessAnalysis;
+  loopStart?: number;
+  loopEnd?: number;
+  stale?: boolean;
+  createdAt?: number;
+}
+
+export interface Track {
+  name: string;
+  id: number;
+  url: string | null;
+  // Generation parameters - optional because older saved sessions only stored the name
+  instrument?: string;
+  style?: string;
+  prompt?: string;
+  muted?: boolean;
+  stale?: boolean; // audio was evicted from storage and can't be restored
+  generationError?: string; // generation failed (or was interrupted by a reload) - no audio until a retry succeeds
+  bpm?: number; // tempo the audio was generated at; playback stretches it to the session tempo
+  timeSignature?: TimeSignature; // meter the audio was generated in; loop points use its bar length
+  tempoAnalysis?: TempoAnalysis; // measured tempo and downbeat of the audio, once it has been decoded
+  loudness?: LoudnessAnalysis; // measured with the tempo; drives the normalization gain
+  // Loop points in seconds of the audio - a realigned downbeat or dragged on the waveform. Detected when absent.
+  loopStart?: number;
+  loopEnd?: number;
+  // Mixer state - optional so sessions saved before the mixer still load
+  volume?: number;
+  pan?: number;
+  solo?: boolean;
+  effects?: TrackEffects; // insert effects and reverb send; absent means all neutral
+  // Alternate takes - url/style/prompt/bpm/timeSignature/analyses/loop points above always mirror the active one.
+  // Absent on tracks that were never regenerated: their only take is stored under the track id.
+  takes?: TrackTake[];
+  activeTakeId?: number;
+}
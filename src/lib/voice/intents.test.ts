@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { TEMPO_STEP, parseVoiceIntent, resolveTrackTarget, stripWakeWord, type VoiceIntent } from "@/lib/voice/intents";
+import type { VoiceLanguage } from "@/lib/voice/vocabulary";
+import type { Track } from "@/lib/track";
+
+type Case = [utterance: string, intent: VoiceIntent];
+
+const target = (text: string, instrument: string, confidence = 1) => ({ text, instrument, confidence });
+
+const CASES: Record<VoiceLanguage, Case[]> = {
+  en: [
+    // add
+    ["add jazz piano", { type: "add", instrument: "Piano", style: "jazz", confidence: 1 }],
+    ["give me drums", { type: "add", instrument: "Drum Set", confidence: 1 }],
+    ["please add the maracas", { type: "add", instrument: "Maracas", confidence: 1 }],
+    ["funky bass", { type: "add", instrument: "Bass Guitar", style: "funky", confidence: 1 }],
+    ["drumz", { type: "add", instrument: "Drum Set", confidence: 0.8 }],
+    // "electric" is also a style, but the longer instrument phrase wins
+    ["electric bass", { type: "add", instrument: "Electric Bass", confidence: 1 }],
+    ["add electric bass", { type: "add", instrument: "Electric Bass", confidence: 1 }],
+    // Misrecognitions one edit away
+    ["base guitar", { type: "add", instrument: "Bass Guitar", confidence: 10 / 11 }],
+    ["saxaphone", { type: "add", instrument: "Saxophone", confidence: 8 / 9 }],
+    // Half the phrase names another instrument
+    ["bass drum", { type: "add", instrument: "Bass Guitar", confidence: 0.5 }],
+    // remove
+    ["remove the bass", { type: "remove", target: target("bass", "Bass Guitar") }],
+    ["get rid of saxophone", { type: "remove", target: target("saxophone", "Saxophone") }],
+    ["delete drums", { type: "remove", target: target("drums", "Drum Set") }],
+    // mute / unmute
+    ["mute drums", { type: "mute", target: target("drums", "Drum Set") }],
+    ["silence the piano", { type: "mute", target: target("piano", "Piano") }],
+    ["unmute drums", { type: "unmute", target: target("drums", "Drum Set") }],
+    // solo / unsolo
+    ["solo piano", { type: "solo", target: target("piano", "Piano") }],
+    ["unsolo piano", { type: "unsolo", target: target("piano", "Piano") }],
+    // play / stop
+    ["play", { type: "play" }],
+    ["play all", { type: "play" }],
+    ["start", { type: "play" }],
+    ["stop", { type: "stop" }],
+    ["pause", { type: "stop" }],
+    ["stop everything", { type: "stop" }],
+    // tempo
+    ["tempo 95", { type: "tempo", bpm: 95 }],
+    ["set tempo to 120", { type: "tempo", bpm: 120 }],
+    ["bpm 140", { type: "tempo", bpm: 140 }],
+    ["100 bpm", { type: "tempo", bpm: 100 }],
+    ["faster", { type: "tempoStep", delta: TEMPO_STEP }],
+    ["speed up", { type: "tempoStep", delta: TEMPO_STEP }],
+    ["slower", { type: "tempoStep", delta: -TEMPO_STEP }],
+    ["slow down", { type: "tempoStep", delta: -TEMPO_STEP }],
+    // regenerate
+    ["regenerate saxophone", { type: "regenerate", target: target("saxophone", "Saxophone") }],
+    ["new take of drums", { type: "regenerate", target: target("drums", "Drum Set") }],
+    // clear
+    ["clear all", { type: "clear" }],
+    ["remove all", { type: "clear" }],
+    ["start over", { type: "clear" }],
+  ],
+  ru: [
+    ["добавь джаз пианино", { type: "add", instrument: "Piano", style: "джаз", confidence: 1 }],
+    ["барабаны", { type: "add", instrument: "Drum Set", confidence: 1 }],
+    ["пожалуйста добавь трубу", { type: "add", instrument: "Trumpet", confidence: 0.8 }],
+    ["удали бас", { type: "remove", target: target("бас", "Bass Guitar") }],
+    ["убери саксофон", { type: "remove", target: target("саксофон", "Saxophone") }],
+    ["выключи барабаны", { type: "mute", target: target("барабаны", "Drum Set") }],
+    ["верни барабаны", { type: "unmute", target: target("барабаны", "Drum Set") }],
+    // "включи" is both play and unmute - with a target it unmutes
+    ["включи барабаны", { type: "unmute", target: target("барабаны", "Drum Set") }],
+    ["соло пианино", { type: "solo", target: target("пианино", "Piano") }],
+    // the longer "убери соло" wins over "убери" (remove)
+    ["убери соло пианино", { type: "unsolo", target: target("пианино", "Piano") }],
+    ["играй", { type: "play" }],
+    ["играй всё", { type: "play" }],
+    ["включи", { type: "play" }],
+    ["стоп", { type: "stop" }],
+    ["хватит", { type: "stop" }],
+    ["темп 95", { type: "tempo", bpm: 95 }],
+    ["темп на 120", { type: "tempo", bpm: 120 }],
+    ["быстрее", { type: "tempoStep", delta: TEMPO_STEP }],
+    ["помедленнее", { type: "tempoStep", delta: -TEMPO_STEP }],
+    ["перегенерируй саксофон", { type: "regenerate", target: target("саксофон", "Saxophone") }],
+    ["пересоздай барабаны", { type: "regenerate", target: target("барабаны", "Drum Set") }],
+    ["очисти всё", { type: "clear" }],
+    ["удали все", { type: "clear" }],
+  ],
+};
+
+// Inputs that could be read more than one way, or not at all
+const AMBIGUOUS: Record<VoiceLanguage, Case[]> = {
+  en: [
+    ["play the drums", { type: "unknown", text: "play the drums", suggestions: ["solo drums", "unmute drums"] }],
+    ["stop the bass", { type: "unknown", text: "stop the bass", suggestions: ["mute bass"] }],
+    ["play something", { type: "unknown", text: "play something", suggestions: [] }],
+    ["tempo", { type: "unknown", text: "tempo", suggestions: [] }],
+    ["tempo 5", { type: "unknown", text: "tempo 5", suggestions: [] }],
+    ["mute", { type: "unknown", text: "mute", suggestions: [] }],
+    ["xylophone", { type: "unknown", text: "xylophone", suggestions: ["Saxophone"] }],
+    ["", { type: "unknown", text: "", suggestions: [] }],
+  ],
+  ru: [
+    ["играй барабаны", { type: "unknown", text: "играй барабаны", suggestions: ["соло барабаны", "верни барабаны"] }],
+    ["темп", { type: "unknown", text: "темп", suggestions: [] }],
+    ["ксилофон", { type: "unknown", text: "ксилофон", suggestions: ["Saxophone"] }],
+  ],
+};
+
+describe("parseVoiceIntent", () => {
+  describe.each(Object.keys(CASES) as VoiceLanguage[])("%s", (language) => {
+    it.each(CASES[language])("%j", (utterance, intent) => {
+      expect(parseVoiceIntent(utterance, language)).toEqual(intent);
+    });
+
+    it.each(AMBIGUOUS[language])("ambiguous: %j", (utterance, intent) => {
+      expect(parseVoiceIntent(utterance, language)).toEqual(intent);
+    });
+  });
+
+  it("ignores case and punctuation", () => {
+    expect(parseVoiceIntent("Mute the Drums!")).toEqual(parseVoiceIntent("mute drums"));
+  });
+});
+
+describe("stripWakeWord", () => {
+  it.each([
+    ["groove, add drums", "en", "add drums"],
+    ["hey groove mute the bass", "en", "mute bass"],
+    ["groove", "en", ""],
+    ["add drums", "en", null],
+    ["грув, добавь барабаны", "ru", "добавь барабаны"],
+  ] as const)("%j -> %j", (utterance, language, command) => {
+    expect(stripWakeWord(utterance, language)).toBe(command);
+  });
+});
+
+describe("resolveTrackTarget", () => {
+  const tracks: Track[] = [
+    { id: 1, name: "Jazz Piano", url: null, instrument: "Piano" },
+    { id: 2, name: "Funk Electric Bass", url: null, instrument: "Electric Bass" },
+    { id: 3, name: "Rock Piano", url: null, instrument: "Piano" },
+  ];
+
+  it("prefers the track whose style was named", () => {
+    expect(resolveTrackTarget({ text: "rock piano", instrument: "Piano", style: "rock" }, tracks)?.id).toBe(3);
+    expect(resolveTrackTarget({ text: "piano", instrument: "Piano" }, tracks)?.id).toBe(1);
+  });
+
+  it("falls back to the same instrument family", () => {
+    expect(resolveTrackTarget({ text: "bass", instrument: "Bass Guitar" }, tracks)?.id).toBe(2);
+  });
+
+  it("finds nothing for an instrument that isn't in the session", () => {
+    expect(resolveTrackTarget({ text: "drums", instrument: "Drum Set" }, tracks)).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+// Turns a recognized utterance into a session command ("mute drums", "tempo 95", "добавь джаз пианино").
+// Pure and DOM-free so the grammar can be exercised without a microphone.
+import type { Track } from "@/lib/track";
+import { getInstrumentFamily, instrumentDefs } from "@/lib/instruments";
+import { DEFAULT_VOICE_LANGUAGE, VOCABULARIES, type VoiceLanguage } from "@/lib/voice/vocabulary";
+import { matchPhraseTokens, suggestInstruments } from "@/lib/voice/matcher";
+
+// How far "faster" / "slower" move the tempo
+export const TEMPO_STEP = 10;
+
+// A spoken reference to an instrument, e.g. "the funk bass"
+export interface VoiceTarget {
+  text: string;
+  instrument?: string;
+  style?: string;
+  confidence?: number; // 0..1, below 1 when fuzzy matching was needed
+}
+
+export type VoiceIntent =
+  | { type: "add"; instrument: string; style?: string; confidence: number }
+  | { type: "remove"; target: VoiceTarget }
+  | { type: "mute"; target: VoiceTarget }
+  | { type: "unmute"; target: VoiceTarget }
+  | { type: "solo"; target: VoiceTarget }
+  | { type: "unsolo"; target: VoiceTarget }
+  | { type: "regenerate"; target: VoiceTarget }
+  | { type: "play" }
+  | { type: "stop" }
+  | { type: "tempo"; bpm: number }
+  | { type: "tempoStep"; delta: number }
+  | { type: "clear" }
+  | { type: "unknown"; text: string; suggestions: string[] };
+
+type TargetVerb = "remove" | "mute" | "unmute" | "solo" | "unsolo" | "regenerate";
+const TARGET_VERBS: TargetVerb[] = ["remove", "unmute", "mute", "unsolo", "solo", "regenerate"];
+
+export function normalizeUtterance(text: string, language: VoiceLanguage = DEFAULT_VOICE_LANGUAGE): string {
+  const { fillers } = VOCABULARIES[language];
+  const words = text
+    .toLowerCase()
+    .replace(/[.,!?;:"«»]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !fillers.includes(word));
+  return words.join(" ");
+}
+
+// Returns what follows `phrase` if the text starts with it as whole words
+function stripPhrase(text: string, phrase: string): string | null {
+  if (text === phrase) return "";
+  return text.startsWith(`${phrase} `) ? text.slice(phrase.length + 1).trim() : null;
+}
+
+function matchPhrase(text: string, phrases: string[]): string | null {
+  const sorted = [...phrases].sort((a, b) => b.length - a.length);
+  for (const phrase of sorted) {
+    const rest = stripPhrase(text, phrase);
+    if (rest !== null) return rest;
+  }
+  return null;
+}
+
+// Split a phrase like "jazz drums" into style + canonical instrument
+export function matchInstrumentPhrase(phrase: string, language: VoiceLanguage = DEFAULT_VOICE_LANGUAGE): VoiceTarget {
+  const { instrument, style, confidence } = matchPhraseTokens(phrase, language);
+  return {
+    text: phrase,
+    instrument: instrument?.entry.value,
+    style: style?.entry.value,
+    confidence: instrument ? confidence : undefined,
+  };
+}
+
+// "Did you mean" candidates for a phrase that named no instrument, keeping any style that was heard
+function suggestPhrases(phrase: string, language: VoiceLanguage): string[] {
+  const style = matchPhraseTokens(phrase, language).style?.entry.value;
+  return suggestInstruments(phrase, language).map((instrument) =>
+    style && !instrument.toLowerCase().includes(style) ? `${style} ${instrument}` : instrument
+  );
+}
+
+function parseTempo(text: string, tempoPhrases: string[]): number | null {
+  const after = matchPhrase(text, tempoPhrases);
+  const match = after !== null ? after.match(/^(?:to |на )?(\d{2,3})(?: bpm| бпм)?$/) : text.match(/^(\d{2,3}) (?:bpm|бпм)$/);
+  return match ? Number(match[1]) : null;
+}
+
+// Hands-free mode: the command after a wake word ("groove, add drums" -> "add drums"),
+// "" for the wake word alone, or null when the phrase wasn't addressed to the app
+export function stripWakeWord(utterance: string, language: VoiceLanguage = DEFAULT_VOICE_LANGUAGE): string | null {
+  return matchPhrase(normalizeUtterance(utterance, language), VOCABULARIES[language].wakeWords);
+}
+
+export function parseVoiceIntent(utterance: string, language: VoiceLanguage = DEFAULT_VOICE_LANGUAGE): VoiceIntent {
+  const { commands, allWords } = VOCABULARIES[language];
+  const text = normalizeUtterance(utterance, language);
+  if (!text) return { type: "unknown", text: utterance, suggestions: [] };
+
+  // Whole-session commands first, so "remove all" isn't read as removing a track called "all"
+  if (matchPhrase(text, commands.clear) === "") return { type: "clear" };
+
+  const bpm = parseTempo(text, commands.tempo);
+  if (bpm !== null) return { type: "tempo", bpm };
+  // "tempo" without a usable number - not an instrument that sounds like it
+  if (matchPhrase(text, commands.tempo) !== null) return { type: "unknown", text: utterance, suggestions: [] };
+  if (matchPhrase(text, commands.faster) === "") return { type: "tempoStep", delta: TEMPO_STEP };
+  if (matchPhrase(text, commands.slower) === "") return { type: "tempoStep", delta: -TEMPO_STEP };
+
+  // Transport: "play", "play all", "стоп"
+  let transport: { type: "play" | "stop"; rest: string } | undefined;
+  for (const type of ["play", "stop"] as const) {
+    const rest = matchPhrase(text, commands[type]);
+    if (rest === "" || (rest !== null && allWords.includes(rest))) return { type };
+    if (rest !== null) transport ??= { type, rest };
+  }
+
+  // The longest verb wins across commands too: "убери соло" (unsolo) over "убери" (remove)
+  let targetCommand: { type: TargetVerb; rest: string } | undefined;
+  for (const type of TARGET_VERBS) {
+    const rest = matchPhrase(text, commands[type]);
+    if (rest && (!targetCommand || rest.length < targetCommand.rest.length)) targetCommand = { type, rest };
+  }
+  if (targetCommand) return { type: targetCommand.type, target: matchInstrumentPhrase(targetCommand.rest, language) };
+
+  // "play the drums" could mean solo or unmute ("stop the drums": mute), but hardly "add a track called play drums"
+  if (transport) {
+    const named = matchInstrumentPhrase(transport.rest, language).instrument !== undefined;
+    const verbs: TargetVerb[] = transport.type === "play" ? ["solo", "unmute"] : ["mute"];
+    return {
+      type: "unknown",
+      text: utterance,
+      suggestions: named ? verbs.map((verb) => `${commands[verb][0]} ${transport.rest}`) : [],
+    };
+  }
+
+  // Anything else is an instrument to add, with or without "add"
+  const phrase = matchPhrase(text, commands.add) ?? text;
+  const { instrument, style, confidence } = matchInstrumentPhrase(phrase, language);
+  return instrument
+    ? { type: "add", instrument, style, confidence: confidence ?? 1 }
+    : { type: "unknown", text: utterance, suggestions: suggestPhrases(phrase, language) };
+}
+
+function trackInstrument(track: Track): string | undefined {
+  return track.instrument ?? instrumentDefs.find((def) => track.name.endsWith(def.name))?.name;
+}
+
+// Finds the track a spoken target refers to: same instrument (style breaks ties),
+// then same family ("bass" also means Electric Bass), then a plain name match
+export function resolveTrackTarget(target: VoiceTarget, tracks: Track[]): Track | undefined {
+  const byStyle = (candidates: Track[]) =>
+    candidates.find((t) => target.style && t.name.toLowerCase().includes(target.style)) ?? candidates[0];
+
+  if (target.instrument) {
+    const exact = tracks.filter((t) => trackInstrument(t) === target.instrument);
+    if (exact.length > 0) return byStyle(exact);
+
+    const family = getInstrumentFamily(target.instrument);
+    const related = tracks.filter((t) => {
+      const instrument = trackInstrument(t);
+      return instrument !== undefined && getInstrumentFamily(instrument) === family;
+    });
+    if (related.length > 0) return byStyle(related);
+  }
+
+  return tracks.find((t) => t.name.toLowerCase().includes(target.text));
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { matchPhraseTokens, similarity, suggestInstruments } from "@/lib/voice/matcher";
+
+const describeMatch = (phrase: string, match = matchPhraseTokens(phrase)) => ({
+  instrument: match.instrument?.entry.value,
+  style: match.style?.entry.value,
+  confidence: match.confidence,
+});
+
+describe("matchPhraseTokens", () => {
+  afterEach(() => {
+    vi.doUnmock("@/lib/voice/vocabulary");
+    vi.resetModules();
+  });
+
+  it("splits a phrase into style and instrument", () => {
+    expect(describeMatch("funky bass")).toEqual({ instrument: "Bass Guitar", style: "funky", confidence: 1 });
+    expect(describeMatch("electric bass")).toEqual({ instrument: "Electric Bass", style: undefined, confidence: 1 });
+  });
+
+  it("scores fuzzy matches by their similarity", () => {
+    expect(describeMatch("base guitar")).toEqual({ instrument: "Bass Guitar", style: undefined, confidence: 10 / 11 });
+    expect(describeMatch("saxaphone")).toEqual({ instrument: "Saxophone", style: undefined, confidence: 8 / 9 });
+  });
+
+  it("only counts the instrument and style it returns towards the confidence", () => {
+    expect(describeMatch("bass drum")).toEqual({ instrument: "Bass Guitar", style: undefined, confidence: 0.5 });
+    expect(describeMatch("jazz piano drums")).toEqual({ instrument: "Piano", style: "jazz", confidence: 2 / 3 });
+    expect(describeMatch("something")).toEqual({ instrument: undefined, style: undefined, confidence: 0 });
+  });
+
+  it("prefers the longest phrase whatever order the vocabulary lists them in", async () => {
+    vi.doMock("@/lib/voice/vocabulary", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("@/lib/voice/vocabulary")>();
+      const en = actual.VOCABULARIES.en;
+      const instruments = Object.fromEntries(Object.entries(en.instruments).reverse());
+      const styles = [...en.styles].reverse();
+      return { ...actual, VOCABULARIES: { ...actual.VOCABULARIES, en: { ...en, instruments, styles } } };
+    });
+    const reordered = await import("@/lib/voice/matcher");
+
+    for (const phrase of ["electric bass", "bass guitar", "drum set"]) {
+      expect(describeMatch(phrase, reordered.matchPhraseTokens(phrase))).toEqual(describeMatch(phrase));
+    }
+    expect(describeMatch("electric bass", reordered.matchPhraseTokens("electric bass")).instrument).toBe("Electric Bass");
+  });
+});
+
+describe("similarity", () => {
+  it("falls from 1 with each edit", () => {
+    expect(similarity("bass", "bass")).toBe(1);
+    expect(similarity("base", "bass")).toBe(0.75);
+    expect(similarity("", "")).toBe(1);
+  });
+});
+
+describe("suggestInstruments", () => {
+  it("offers the closest instruments for a phrase that matched nothing", () => {
+    expect(suggestInstruments("xylophone")).toEqual(["Saxophone"]);
+    expect(suggestInstruments("zzzz")).toEqual([]);
+  });
+});
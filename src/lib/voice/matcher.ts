@@ -0,0 +1,159 @@
+// Tokenizing matcher for instrument phrases ("funky bass", "electric bass", "base guitar").
+// Vocabulary phrases are matched as whole tokens, longest first, with a fuzzy fallback for
+// recognition errors. Every match carries a 0..1 score so callers can judge how sure it is.
+import { instrumentDefs } from "@/lib/instruments";
+import { DEFAULT_VOICE_LANGUAGE, VOCABULARIES, type VoiceLanguage } from "@/lib/voice/vocabulary";
+
+// Below this similarity a fuzzy match is treated as no match
+export const FUZZY_THRESHOLD = 0.75;
+// Shorter spans are too easy to confuse ("pop" / "hop") - they only match exactly
+const MIN_FUZZY_LENGTH = 4;
+// Suggestions further off than this are noise rather than a likely mishearing
+const SUGGESTION_THRESHOLD = 0.4;
+export const MAX_INSTRUMENT_SUGGESTIONS = 3;
+
+export interface VocabularyEntry {
+  kind: "instrument" | "style";
+  phrase: string;
+  tokens: string[];
+  value: string; // canonical instrument name, or the style word itself
+}
+
+export interface TokenMatch {
+  entry: VocabularyEntry;
+  start: number; // token index
+  length: number;
+  score: number; // 1 for an exact match
+}
+
+export interface PhraseMatch {
+  instrument?: TokenMatch;
+  style?: TokenMatch;
+  tokens: string[];
+  // Share of the phrase the matches explain, each token weighted by its match score
+  confidence: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+const vocabularyCache = new Map<VoiceLanguage, VocabularyEntry[]>();
+
+// The language's synonyms plus the canonical names shown on the buttons, which work in any language
+function getVocabulary(language: VoiceLanguage): VocabularyEntry[] {
+  const cached = vocabularyCache.get(language);
+  if (cached) return cached;
+
+  const { instruments, styles } = VOCABULARIES[language];
+  const synonyms: Record<string, string> = { ...instruments };
+  for (const def of instrumentDefs) synonyms[def.name.toLowerCase()] ??= def.name;
+
+  const entries: VocabularyEntry[] = [
+    ...Object.entries(synonyms).map(([phrase, value]) => ({
+      kind: "instrument" as const,
+      phrase,
+      tokens: tokenize(phrase),
+      value,
+    })),
+    ...styles.map((phrase) => ({ kind: "style" as const, phrase, tokens: tokenize(phrase), value: phrase })),
+  ];
+  vocabularyCache.set(language, entries);
+  return entries;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings, falling towards 0 with each edit
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+function scoreSpan(tokens: string[], entry: VocabularyEntry): number {
+  if (tokens.length !== entry.tokens.length) return 0;
+  if (tokens.every((token, i) => token === entry.tokens[i])) return 1;
+  const span = tokens.join(" ");
+  if (span.length < MIN_FUZZY_LENGTH) return 0;
+  const score = similarity(span, entry.phrase);
+  return score >= FUZZY_THRESHOLD ? score : 0;
+}
+
+function bestMatchAt(vocabulary: VocabularyEntry[], tokens: string[], start: number): TokenMatch | undefined {
+  const maxLength = Math.max(...vocabulary.map((entry) => entry.tokens.length));
+  // Longest span wins, so "electric bass" beats style "electric" + "bass"
+  for (let length = Math.min(maxLength, tokens.length - start); length > 0; length--) {
+    const span = tokens.slice(start, start + length);
+    let best: TokenMatch | undefined;
+    for (const entry of vocabulary) {
+      const score = scoreSpan(span, entry);
+      // Ties go to instruments, then to vocabulary order
+      if (score > 0 && (!best || score > best.score || (score === best.score && entry.kind === "instrument" && best.entry.kind === "style"))) {
+        best = { entry, start, length, score };
+      }
+    }
+    if (best) return best;
+  }
+  return undefined;
+}
+
+// Left-to-right scan; the first instrument and the first style found are kept.
+// Only those two explain the phrase - a second instrument ("bass drum") lowers the confidence.
+export function matchPhraseTokens(text: string, language: VoiceLanguage = DEFAULT_VOICE_LANGUAGE): PhraseMatch {
+  const vocabulary = getVocabulary(language);
+  const tokens = tokenize(text);
+  const result: PhraseMatch = { tokens, confidence: 0 };
+
+  for (let i = 0; i < tokens.length; ) {
+    const match = bestMatchAt(vocabulary, tokens, i);
+    if (!match) {
+      i++;
+      continue;
+    }
+    if (match.entry.kind === "instrument" && !result.instrument) result.instrument = match;
+    if (match.entry.kind === "style" && !result.style) result.style = match;
+    i += match.length;
+  }
+
+  const explained = [result.instrument, result.style].reduce((sum, match) => sum + (match ? match.score * match.length : 0), 0);
+  result.confidence = result.instrument ? explained / tokens.length : 0;
+  return result;
+}
+
+// Closest instruments to an unmatched phrase, for a "did you mean" hint.
+// Every span is compared against every instrument phrase, with a looser threshold than matching.
+export function suggestInstruments(
+  text: string,
+  language: VoiceLanguage = DEFAULT_VOICE_LANGUAGE,
+  limit = MAX_INSTRUMENT_SUGGESTIONS
+): string[] {
+  const tokens = tokenize(text);
+  const scores = new Map<string, number>();
+
+  for (const entry of getVocabulary(language)) {
+    if (entry.kind !== "instrument") continue;
+    for (let start = 0; start + entry.tokens.length <= tokens.length; start++) {
+      const span = tokens.slice(start, start + entry.tokens.length).join(" ");
+      const score = similarity(span, entry.phrase);
+      if (score > (scores.get(entry.value) ?? 0)) scores.set(entry.value, score);
+    }
+  }
+
+  return [...scores.entries()]
+    .filter(([, score]) => score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
@@ -0,0 +1,53 @@
+// Autocomplete for the typed command bar - completes the phrase being typed with
+// instrument names, style keywords, command verbs and the names of existing tracks.
+import { instrumentDefs } from "@/lib/instruments";
+import { DEFAULT_VOICE_LANGUAGE, VOCABULARIES, type CommandName, type VoiceLanguage } from "@/lib/voice/vocabulary";
+
+export const MAX_SUGGESTIONS = 8;
+
+// Commands worth offering at the start of a phrase, each by its first (canonical) wording
+const COMMAND_STARTERS: CommandName[] = [
+  "add", "remove", "mute", "unmute", "solo", "unsolo", "regenerate",
+  "play", "stop", "tempo", "faster", "slower", "clear",
+];
+const TARGET_COMMANDS: CommandName[] = ["remove", "mute", "unmute", "solo", "unsolo", "regenerate"];
+
+export interface SuggestionContext {
+  trackNames?: string[];
+  language?: VoiceLanguage;
+}
+
+export function getCommandSuggestions(input: string, context: SuggestionContext = {}, limit = MAX_SUGGESTIONS): string[] {
+  const words = input.toLowerCase().trimStart().split(/\s+/);
+  if (words.length === 1 && words[0] === "") return [];
+
+  const { commands, styles, instruments: synonyms } = VOCABULARIES[context.language ?? DEFAULT_VOICE_LANGUAGE];
+  const starters = COMMAND_STARTERS.map((name) => commands[name][0]);
+  const targetVerbs = TARGET_COMMANDS.flatMap((name) => commands[name]);
+  const instruments = [...new Set([...instrumentDefs.map((def) => def.name.toLowerCase()), ...Object.keys(synonyms)])];
+  const trackNames = (context.trackNames ?? []).map((name) => name.toLowerCase());
+  const suggestions: string[] = [];
+
+  // Try completing the last two words first ("electric b" -> "electric bass"), then just the last one
+  for (const tailLength of [2, 1]) {
+    if (words.length < tailLength) continue;
+    const prefixWords = words.slice(0, words.length - tailLength);
+    const partial = words.slice(-tailLength).join(" ");
+    const prefix = prefixWords.join(" ");
+
+    const isTarget = targetVerbs.some((verb) => prefix === verb || prefix.startsWith(`${verb} `));
+    const candidates = prefixWords.length === 0
+      ? [...starters, ...styles, ...instruments]
+      : isTarget
+        ? [...trackNames, ...instruments]
+        : [...styles, ...instruments];
+
+    for (const candidate of candidates) {
+      if (candidate.startsWith(partial) && candidate !== partial) {
+        suggestions.push(prefix ? `${prefix} ${candidate}` : candidate);
+      }
+    }
+  }
+
+  return [...new Set(suggestions)].slice(0, limit);
+}
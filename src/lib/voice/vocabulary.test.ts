@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { isVoiceLanguage } from "@/lib/voice/vocabulary";
+
+describe("isVoiceLanguage", () => {
+  it("accepts the supported languages", () => {
+    expect(isVoiceLanguage("en")).toBe(true);
+    expect(isVoiceLanguage("ru")).toBe(true);
+  });
+
+  // The saved choice comes back from localStorage as any string
+  it.each(["de", "", "toString", "constructor", "__proto__", null, 1])("rejects %j", (value) => {
+    expect(isVoiceLanguage(value)).toBe(false);
+  });
+});
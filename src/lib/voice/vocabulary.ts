@@ -0,0 +1,127 @@
+// Words the voice parser understands, one table set per recognition language.
+// Canonical instrument names match instrumentDefs.
+
+export type VoiceLanguage = "en" | "ru";
+
+export type CommandName =
+  | "clear" | "play" | "stop" | "faster" | "slower" | "tempo" | "remove"
+  | "unmute" | "mute" | "unsolo" | "solo" | "regenerate" | "add";
+
+export interface VoiceVocabulary {
+  locale: string; // BCP 47 tag handed to the recognizer
+  label: string;
+  styles: string[];
+  // Synonyms and variations -> canonical instrument. Matched as whole words, longest phrase first.
+  instruments: Record<string, string>;
+  // Longer phrases are tried first, so "remove all" wins over "remove".
+  // The first phrase of each list is the one autocomplete offers.
+  commands: Record<CommandName, string[]>;
+  // Dropped before matching: politeness and articles
+  fillers: string[];
+  // "play all", "stop everything"
+  allWords: string[];
+  // Hands-free mode only acts on phrases that start with one of these ("groove, add drums").
+  // The first is the one shown in hints.
+  wakeWords: string[];
+}
+
+export const DEFAULT_VOICE_LANGUAGE: VoiceLanguage = "en";
+
+export const VOCABULARIES: Record<VoiceLanguage, VoiceVocabulary> = {
+  en: {
+    locale: "en-US",
+    label: "English",
+    styles: [
+      "jazz", "rock", "blues", "funk", "funky", "classical", "acoustic", "electric",
+      "latin", "reggae", "country", "pop", "metal", "punk", "ambient", "electronic",
+      "hip hop", "rap", "rnb", "soul", "disco", "techno", "house", "dubstep",
+    ],
+    // "acoustic" stays a style, so "acoustic guitar" keeps it instead of being swallowed here
+    instruments: {
+      "piano": "Piano",
+      "keyboard": "Piano",
+      "keys": "Piano",
+      "bass guitar": "Bass Guitar",
+      "electric bass": "Electric Bass",
+      "electric guitar": "Electric Guitar",
+      "guitar": "Electric Guitar",
+      "bass": "Bass Guitar",
+      "drums": "Drum Set",
+      "drum set": "Drum Set",
+      "drum": "Drum Set",
+      "percussion": "Drum Set",
+      "saxophone": "Saxophone",
+      "sax": "Saxophone",
+      "trumpet": "Trumpet",
+      "maracas": "Maracas",
+      "shaker": "Maracas",
+    },
+    commands: {
+      clear: ["clear all", "clear everything", "clear", "remove all", "delete all", "delete everything", "start over"],
+      play: ["play", "play all", "start", "go"],
+      stop: ["stop", "stop all", "pause"],
+      faster: ["faster", "speed up"],
+      slower: ["slower", "slow down"],
+      tempo: ["tempo", "set tempo to", "set tempo", "bpm"],
+      remove: ["remove", "get rid of", "delete", "drop"],
+      unmute: ["unmute"],
+      mute: ["mute", "silence"],
+      unsolo: ["unsolo"],
+      solo: ["solo"],
+      regenerate: ["regenerate", "re-generate", "new take of", "new take", "another take of", "another take"],
+      add: ["add", "give me"],
+    },
+    fillers: ["please", "the", "a", "an", "track"],
+    allWords: ["all", "everything"],
+    // Recognizers often hear "groove" as "grove" or "groovy"
+    wakeWords: ["groove", "hey groove", "ok groove", "grove", "groovy"],
+  },
+  ru: {
+    locale: "ru-RU",
+    label: "Русский",
+    styles: ["джаз", "рок", "блюз", "фанк", "классика", "акустик", "электрик", "метал"],
+    instruments: {
+      "пианино": "Piano",
+      "клавиши": "Piano",
+      "фортепиано": "Piano",
+      "гитара": "Electric Guitar",
+      "электрогитара": "Electric Guitar",
+      "бас": "Bass Guitar",
+      "басс": "Bass Guitar",
+      "бас-гитара": "Bass Guitar",
+      "барабаны": "Drum Set",
+      "барабан": "Drum Set",
+      "ударные": "Drum Set",
+      "саксофон": "Saxophone",
+      "сакс": "Saxophone",
+      "труба": "Trumpet",
+      "трубка": "Trumpet",
+      "маракасы": "Maracas",
+      "маракас": "Maracas",
+    },
+    commands: {
+      clear: ["очисти всё", "очисти все", "очистить всё", "очистить все", "очисти", "очистить", "удали всё", "удали все"],
+      play: ["играй", "играть", "старт", "запусти", "поехали", "включи"],
+      stop: ["стоп", "останови", "остановить", "пауза", "хватит"],
+      faster: ["быстрее", "ускорь"],
+      slower: ["медленнее", "помедленнее", "замедли"],
+      tempo: ["темп"],
+      remove: ["удали", "удалить", "убери", "убрать"],
+      unmute: ["верни", "включи"],
+      mute: ["выключи", "замьють", "заглуши"],
+      unsolo: ["убери соло"],
+      solo: ["соло"],
+      regenerate: ["перегенерируй", "перегенерировать", "пересоздай"],
+      add: ["добавь", "добавить"],
+    },
+    fillers: ["пожалуйста", "дорожку"],
+    allWords: ["всё", "все"],
+    wakeWords: ["грув", "эй грув", "груви"],
+  },
+};
+
+export const VOICE_LANGUAGES = Object.keys(VOCABULARIES) as VoiceLanguage[];
+
+export function isVoiceLanguage(value: unknown): value is VoiceLanguage {
+  return typeof value === "string" && Object.hasOwn(VOCABULARIES, value);
+}